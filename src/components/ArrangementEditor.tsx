@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { ChevronLeft, X, Save, Trash2, RotateCcw } from 'lucide-react';
+import type { Song } from '../types';
+import { SongArrangement } from '../utils/songArrangement';
+import { ArrangementStorage } from '../utils/arrangementStorage';
+import { SectionTypes } from '../utils/sectionTypes';
+
+interface ArrangementEditorProps {
+  song: Song;
+  flow?: string[]; // The setlist's flow; the song as written when unset
+  onChange: (flow: string[] | undefined) => void;
+  className?: string;
+}
+
+const MAX_REPEAT = 4;
+
+// Builds the order a setlist plays a song's sections in: add sections from
+// the song, tap one to play it more times, or load a saved arrangement
+export const ArrangementEditor: React.FC<ArrangementEditorProps> = ({
+  song,
+  flow,
+  onChange,
+  className = ''
+}) => {
+  const [namedArrangements, setNamedArrangements] = useState(() => ArrangementStorage.get(song.id));
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const entries = SongArrangement.getEntries(song.sections, flow);
+  const currentFlow = SongArrangement.toFlow(entries);
+  const availableLabels = SongArrangement.getAvailableLabels(song.sections);
+  // Saved flows are compared as written back, so "Bx2" matches "B x2"
+  const matchesFlow = (candidate?: string[]) =>
+    SongArrangement.toFlow(SongArrangement.getEntries(song.sections, candidate)).join(' ') === currentFlow.join(' ');
+  const selectedArrangement = flow
+    ? namedArrangements.find(arrangement => matchesFlow(arrangement.flow))
+    : undefined;
+
+  // Run an edit and show why it failed, if it did
+  const attempt = (edit: () => void) => {
+    try {
+      edit();
+      setError(null);
+    } catch (err) {
+      console.error('Error updating arrangement:', err);
+      setError(err instanceof Error ? err.message : 'The arrangement could not be changed');
+    }
+  };
+
+  const change = (updated: string[] | undefined) => attempt(() => onChange(updated));
+
+  // An empty flow would mean the song as written, so the last entry stays
+  const updateEntries = (updated: typeof entries) => change(SongArrangement.toFlow(updated));
+
+  const moveEarlier = (index: number) => {
+    const updated = [...entries];
+    [updated[index - 1], updated[index]] = [updated[index], updated[index - 1]];
+    updateEntries(updated);
+  };
+
+  const cycleRepeat = (index: number) => {
+    const repeat = entries[index].repeat ?? 1;
+    updateEntries(entries.map((entry, i) => i === index
+      ? { ...entry, repeat: repeat >= MAX_REPEAT ? undefined : repeat + 1 }
+      : entry));
+  };
+
+  const applyPreset = (value: string) => {
+    if (value === '') {
+      change(undefined);
+    } else if (value === 'song-flow') {
+      change(song.flow);
+    } else {
+      change(namedArrangements.find(arrangement => arrangement.name === value)?.flow);
+    }
+  };
+
+  const saveArrangement = () => {
+    if (!newName.trim()) return;
+    attempt(() => {
+      ArrangementStorage.save(song.id, newName, currentFlow);
+      setNamedArrangements(ArrangementStorage.get(song.id));
+      onChange(currentFlow);
+      setNewName('');
+    });
+  };
+
+  const deleteArrangement = (name: string) => {
+    attempt(() => {
+      ArrangementStorage.remove(song.id, name);
+      setNamedArrangements(ArrangementStorage.get(song.id));
+    });
+  };
+
+  const presetValue = !flow ? ''
+    : selectedArrangement ? selectedArrangement.name
+    : song.flow && matchesFlow(song.flow) ? 'song-flow'
+    : 'custom';
+
+  return (
+    <div className={`arrangement-editor space-y-3 ${className}`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={presetValue}
+          onChange={(e) => applyPreset(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 rounded border border-border bg-background text-foreground text-sm"
+          aria-label="Arrangement"
+        >
+          <option value="">As written</option>
+          {song.flow && <option value="song-flow">Song flow ({song.flow.join(' ')})</option>}
+          {namedArrangements.map(arrangement => (
+            <option key={arrangement.name} value={arrangement.name}>{arrangement.name}</option>
+          ))}
+          {presetValue === 'custom' && <option value="custom" disabled>Custom</option>}
+        </select>
+        {selectedArrangement && (
+          <button
+            onClick={() => deleteArrangement(selectedArrangement.name)}
+            aria-label={`Delete arrangement ${selectedArrangement.name}`}
+            title="Delete this saved arrangement"
+            className="touch-target p-2 text-muted-foreground hover:text-destructive transition-colors"
+          >
+            <Trash2 size={14} />
+          </button>
+        )}
+        {flow && (
+          <button
+            onClick={() => change(undefined)}
+            aria-label="Reset to the song's order"
+            title="Reset to the song's order"
+            className="touch-target p-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <RotateCcw size={14} />
+          </button>
+        )}
+      </div>
+
+      {/* Flow: tap a section to repeat it */}
+      <div className="flex flex-wrap items-center gap-1">
+        {entries.map((entry, index) => {
+          const section = song.sections[entry.sectionIndex];
+          return (
+            <span
+              key={index}
+              className={`flex items-center rounded border border-border bg-background text-xs font-mono font-semibold ${SectionTypes.get(section.type).color}`}
+            >
+              {index > 0 && (
+                <button
+                  onClick={() => moveEarlier(index)}
+                  aria-label={`Move ${entry.label} earlier`}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+              )}
+              <button
+                onClick={() => cycleRepeat(index)}
+                title={`${section.name || SectionTypes.get(section.type).label}: tap to repeat`}
+                className={`py-0.5 ${index > 0 ? '' : 'pl-2'}`}
+              >
+                {entry.label}
+                {(entry.repeat ?? 1) > 1 && <span className="opacity-70"> ×{entry.repeat}</span>}
+              </button>
+              <button
+                onClick={() => updateEntries(entries.filter((_, i) => i !== index))}
+                disabled={entries.length === 1}
+                aria-label={`Remove ${entry.label}`}
+                className="p-1 text-muted-foreground hover:text-destructive disabled:opacity-30"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          );
+        })}
+      </div>
+
+      {/* Sections to add */}
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">Add:</span>
+        {availableLabels.map(({ label, sectionIndex }) => {
+          const section = song.sections[sectionIndex];
+          return (
+            <button
+              key={label}
+              onClick={() => updateEntries([...entries, { label, sectionIndex }])}
+              title={section.name || SectionTypes.get(section.type).label}
+              className="px-2 py-0.5 rounded border border-border bg-secondary text-secondary-foreground hover:bg-accent text-xs font-mono font-semibold transition-colors"
+            >
+              + {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Save for other setlists */}
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && saveArrangement()}
+          placeholder="Save as arrangement…"
+          className="flex-1 min-w-0 px-2 py-1 rounded border border-border bg-background text-foreground text-sm"
+        />
+        <button
+          onClick={saveArrangement}
+          disabled={!newName.trim()}
+          className="flex items-center gap-1 px-3 py-1 rounded bg-primary text-primary-foreground text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save size={14} />
+          Save
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React from 'react';
+import type { ChordVoicing } from '../types';
+import type { ChordDiagramData } from '../utils/chordVoicings';
+
+interface ChordDiagramProps {
+  name: string;
+  diagram: ChordDiagramData;
+  className?: string;
+}
+
+// Spacing of the fretboard grid in SVG units
+const STRING_GAP = 12;
+const FRET_GAP = 14;
+const MARGIN_X = 14; // Room for the base fret label on the left
+const MARGIN_TOP = 14; // Room for open and muted markers
+const MIN_FRETS = 4;
+// Keyboard key sizes in SVG units
+const WHITE_KEY_WIDTH = 9;
+const WHITE_KEY_HEIGHT = 36;
+const BLACK_KEY_WIDTH = 6;
+const BLACK_KEY_HEIGHT = 22;
+const KEYBOARD_OCTAVES = 3;
+const BLACK_KEYS = [1, 3, 6, 8, 10]; // Semitones above C
+
+// Chord diagram for any instrument: a chord box for fretted instruments or a
+// keyboard with the notes to play
+export const ChordDiagram: React.FC<ChordDiagramProps> = ({ name, diagram, className = '' }) => (
+  <figure className={`chord-diagram inline-flex flex-col items-center text-foreground ${className}`}>
+    <figcaption className="text-sm font-mono font-bold text-primary">{name}</figcaption>
+    {diagram.type === 'fretted'
+      ? <FrettedDiagram name={name} voicing={diagram.voicing} />
+      : <KeyboardDiagram name={name} keys={diagram.keys} />}
+  </figure>
+);
+
+// Chord box: strings run left to right from lowest to highest, with the nut
+// (or base fret number) at the top
+const FrettedDiagram: React.FC<{ name: string; voicing: ChordVoicing }> = ({ name, voicing }) => {
+  const { frets, fingers, baseFret } = voicing;
+  const fretCount = Math.max(MIN_FRETS, ...frets.map(fret => fret ?? 0));
+  const width = MARGIN_X * 2 + STRING_GAP * (frets.length - 1);
+  const height = MARGIN_TOP + FRET_GAP * fretCount + 6;
+  const stringX = (index: number) => MARGIN_X + index * STRING_GAP;
+  const fretY = (fret: number) => MARGIN_TOP + fret * FRET_GAP;
+
+  // Strings fretted at the same lowest fret by the first finger form a barre
+  const barreFret = fingers && fingers.filter(finger => finger === 1).length > 1
+    ? frets[fingers.indexOf(1)]
+    : null;
+  const barreStrings = frets
+    .map((fret, index) => fret === barreFret && fingers?.[index] === 1 ? index : -1)
+    .filter(index => index !== -1);
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`${name} chord diagram`}
+    >
+      {/* Nut, or the base fret number when the shape is further up the neck */}
+      {baseFret === 1 ? (
+        <rect x={stringX(0)} y={MARGIN_TOP - 3} width={stringX(frets.length - 1) - stringX(0)} height={3} fill="currentColor" />
+      ) : (
+        <text x={stringX(0) - 4} y={fretY(1) - FRET_GAP / 2 + 3} fontSize={9} textAnchor="end" fill="currentColor">
+          {baseFret}
+        </text>
+      )}
+
+      {Array.from({ length: fretCount + 1 }, (_, fret) => (
+        <line key={`fret-${fret}`} x1={stringX(0)} x2={stringX(frets.length - 1)} y1={fretY(fret)} y2={fretY(fret)}
+          stroke="currentColor" strokeOpacity={0.5} />
+      ))}
+      {frets.map((_, index) => (
+        <line key={`string-${index}`} x1={stringX(index)} x2={stringX(index)} y1={fretY(0)} y2={fretY(fretCount)}
+          stroke="currentColor" strokeOpacity={0.7} />
+      ))}
+
+      {barreStrings.length > 1 && barreFret && (
+        <rect
+          x={stringX(barreStrings[0]) - 4}
+          y={fretY(barreFret) - FRET_GAP / 2 - 4}
+          width={stringX(barreStrings[barreStrings.length - 1]) - stringX(barreStrings[0]) + 8}
+          height={8}
+          rx={4}
+          fill="currentColor"
+        />
+      )}
+
+      {frets.map((fret, index) => {
+        const x = stringX(index);
+        if (fret === null) {
+          return (
+            <text key={index} x={x} y={MARGIN_TOP - 5} fontSize={9} textAnchor="middle" fill="currentColor">×</text>
+          );
+        }
+        if (fret === 0) {
+          return <circle key={index} cx={x} cy={MARGIN_TOP - 8} r={3} fill="none" stroke="currentColor" />;
+        }
+        return <circle key={index} cx={x} cy={fretY(fret) - FRET_GAP / 2} r={4.5} fill="currentColor" />;
+      })}
+    </svg>
+  );
+};
+
+// Three octaves from C; the bass note is ringed, the chord notes filled
+const KeyboardDiagram: React.FC<{ name: string; keys: number[] }> = ({ name, keys }) => {
+  const [bass, ...upper] = keys;
+  const whiteKeys = Array.from({ length: 12 * KEYBOARD_OCTAVES }, (_, key) => key)
+    .filter(key => !BLACK_KEYS.includes(key % 12));
+  const blackKeys = Array.from({ length: 12 * KEYBOARD_OCTAVES }, (_, key) => key)
+    .filter(key => BLACK_KEYS.includes(key % 12));
+  // Black keys sit on the line between their neighbouring white keys
+  const keyX = (key: number) => whiteKeys.filter(white => white < key).length * WHITE_KEY_WIDTH;
+  const marker = (key: number, black: boolean) => {
+    const x = black ? keyX(key) : keyX(key) + WHITE_KEY_WIDTH / 2;
+    const y = black ? BLACK_KEY_HEIGHT - 5 : WHITE_KEY_HEIGHT - 6;
+    if (upper.includes(key)) return <circle key={`note-${key}`} cx={x} cy={y} r={2.5} className="fill-primary" />;
+    if (key === bass) return <circle key={`note-${key}`} cx={x} cy={y} r={2.5} fill="none" className="stroke-primary" />;
+    return null;
+  };
+  const width = whiteKeys.length * WHITE_KEY_WIDTH;
+
+  return (
+    <svg
+      width={width + 1}
+      height={WHITE_KEY_HEIGHT + 1}
+      viewBox={`0 0 ${width + 1} ${WHITE_KEY_HEIGHT + 1}`}
+      role="img"
+      aria-label={`${name} keyboard diagram`}
+    >
+      {whiteKeys.map(key => (
+        <rect key={key} x={keyX(key) + 0.5} y={0.5} width={WHITE_KEY_WIDTH} height={WHITE_KEY_HEIGHT}
+          fill="white" stroke="currentColor" strokeOpacity={0.6} />
+      ))}
+      {whiteKeys.map(key => marker(key, false))}
+      {blackKeys.map(key => (
+        <rect key={key} x={keyX(key) - BLACK_KEY_WIDTH / 2 + 0.5} y={0.5} width={BLACK_KEY_WIDTH} height={BLACK_KEY_HEIGHT}
+          fill="black" />
+      ))}
+      {blackKeys.map(key => marker(key, true))}
+    </svg>
+  );
+};
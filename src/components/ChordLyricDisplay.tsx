@@ -1,11 +1,22 @@
-import React from 'react';
-import type { ChordLyricLine } from '../types';
+import React, { useState } from 'react';
+import type { ChordLyricLine, ChordDefinition, Key } from '../types';
 import { ChordTransposer } from '../utils/chordTransposer';
+import { ChordGrammar } from '../utils/chordGrammar';
+import { ChordProParser } from '../utils/chordProParser';
+import { SectionTypes } from '../utils/sectionTypes';
+import { SongArrangement } from '../utils/songArrangement';
+import { ChordVoicings } from '../utils/chordVoicings';
+import { Instruments } from '../utils/instruments';
+import type { InstrumentProfile } from '../utils/instruments';
+import { ChordDiagram } from './ChordDiagram';
+import { useSettings } from '../contexts/SettingsContext';
 
 interface ChordLyricDisplayProps {
   line: ChordLyricLine;
-  originalKey: string;
-  currentKey: string;
+  originalKey: Key;
+  currentKey: Key;
+  chordDefinitions?: ChordDefinition[];
+  instrument?: InstrumentProfile; // Diagrams are drawn for this; defaults to the user's instrument
   className?: string;
 }
 
@@ -13,24 +24,89 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
   line,
   originalKey,
   currentKey,
+  chordDefinitions,
+  instrument: instrumentProp,
   className = ''
 }) => {
-  // Transpose chords if key has changed (capo doesn't affect chord display)
-  const transposedChords = line.chords.map(chordPos => ({
-    ...chordPos,
-    chord: ChordTransposer.transposeChord(
+  const { settings } = useSettings();
+  const instrument = instrumentProp ?? Instruments.get(settings.instrument, settings.tuning);
+  // Chord whose diagram is showing, by index in line.chords
+  const [diagramChord, setDiagramChord] = useState<number | null>(null);
+
+  // Transpose chords if key has changed, simplify them if asked, and write
+  // them in the chosen house style. Capo shapes arrive as currentKey, already
+  // moved down by the capo. Bass players see just the note to play.
+  const transposedChords = line.chords.map(chordPos => {
+    const chord = ChordGrammar.normalise(ChordGrammar.simplify(ChordTransposer.transposeChord(
       chordPos.chord,
       originalKey,
       currentKey,
-      0 // Don't include capo in chord transposition - it only affects effective key
-    )
-  }));
+      0 // Capo is already accounted for in currentKey
+    ), settings.chordSimplification), settings.chordStyle);
+    return { ...chordPos, chord: instrument.bassNotesOnly ? ChordGrammar.getBassNote(chord) : chord };
+  });
+
+  // Scale degree of each chord for number charts
+  const chordNumbers = transposedChords.map(chordPos =>
+    ChordTransposer.toScaleDegree(chordPos.chord, currentKey, settings.numberSystem)
+  );
+  const stacked = settings.chordNotation === 'both';
+
+  const getChordWidth = (index: number) => {
+    switch (settings.chordNotation) {
+      case 'numbers': return chordNumbers[index].length;
+      case 'both': return Math.max(chordNumbers[index].length, transposedChords[index].chord.length);
+      default: return transposedChords[index].chord.length;
+    }
+  };
+
+  const renderChord = (index: number) => {
+    switch (settings.chordNotation) {
+      case 'numbers': return chordNumbers[index];
+      case 'both': return (
+        <span className="flex flex-col leading-tight">
+          <span>{chordNumbers[index]}</span>
+          <span className="text-xs font-medium text-muted-foreground">{transposedChords[index].chord}</span>
+        </span>
+      );
+      default: return transposedChords[index].chord;
+    }
+  };
+
+  // Hovering or tapping a chord shows its diagram below it
+  const renderChordWithDiagram = (index: number) => {
+    const chord = transposedChords[index].chord;
+    const diagram = diagramChord === index ? ChordVoicings.getDiagram(chord, instrument, chordDefinitions) : null;
+    return (
+      <span
+        className="chord relative cursor-pointer"
+        onMouseEnter={() => setDiagramChord(index)}
+        onMouseLeave={() => setDiagramChord(null)}
+        onClick={() => setDiagramChord(diagramChord === index ? null : index)}
+      >
+        {renderChord(index)}
+        {diagram && (
+          <span className="absolute top-full left-0 z-20 mt-1 p-2 bg-card border border-border rounded-lg shadow-lg">
+            <ChordDiagram name={chord} diagram={diagram} />
+          </span>
+        )}
+      </span>
+    );
+  };
 
   // Create an array to hold the rendered content
   const renderContent = () => {
     const lyrics = line.lyrics;
     const chords = transposedChords;
     
+    if (line.comment) {
+      return (
+        <div className={`comment-line inline-block text-sm px-2 py-0.5 rounded ${getCommentStyle(line.comment)}`}>
+          {lyrics}
+        </div>
+      );
+    }
+
     if (chords.length === 0) {
       return (
         <div className="lyrics-line">
@@ -47,11 +123,11 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
       // For instrumental sections, display chords with proper spacing
       return (
         <div className="lyrics-line">
-          <div className="chord-line h-6 text-sm font-mono font-bold text-primary flex gap-4">
-            {chords.map((chordPos, index) => (
-              <span key={index} className="chord">
-                {chordPos.chord}
-              </span>
+          <div className={`chord-line ${stacked ? 'h-10' : 'h-6'} text-sm font-mono font-bold text-primary flex gap-4`}>
+            {chords.map((_, index) => (
+              <React.Fragment key={index}>
+                {renderChordWithDiagram(index)}
+              </React.Fragment>
             ))}
           </div>
           <div className="lyrics text-foreground text-muted-foreground text-sm italic">
@@ -61,11 +137,13 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
       );
     }
 
-    // Sort chords by position
-    const sortedChords = [...chords].sort((a, b) => a.position - b.position);
+    // Sort chords by position, remembering each one's index for its labels
+    const sortedChords = chords
+      .map((chordPos, index) => ({ ...chordPos, index }))
+      .sort((a, b) => a.position - b.position);
     
     // Build segments for proper chord/lyric alignment
-    const segments: Array<{ text: string; chord?: string; width: number }> = [];
+    const segments: Array<{ text: string; chord?: number; width: number }> = [];
     let lastPosition = 0;
 
     sortedChords.forEach((chordPos, index) => {
@@ -81,12 +159,12 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
       // Add the chord with text at this position
       const nextChordPos = sortedChords[index + 1]?.position ?? lyrics.length;
       const text = lyrics.substring(chordPos.position, nextChordPos);
-      const chordWidth = chordPos.chord.length;
+      const chordWidth = getChordWidth(chordPos.index);
       const textWidth = text.length;
       
       segments.push({
         text,
-        chord: chordPos.chord,
+        chord: chordPos.index,
         width: Math.max(chordWidth, textWidth)
       });
       
@@ -104,12 +182,12 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
 
     return (
       <div className="lyrics-line">
-        <div className="chord-line h-6 text-sm font-mono font-bold text-primary flex">
+        <div className={`chord-line ${stacked ? 'h-10' : 'h-6'} text-sm font-mono font-bold text-primary flex`}>
           {segments.map((segment, index) => (
             <div key={index} className="relative" style={{ minWidth: `${segment.width}ch` }}>
-              {segment.chord && (
+              {segment.chord !== undefined && (
                 <div className="absolute top-0 left-0 text-primary">
-                  {segment.chord}
+                  {renderChordWithDiagram(segment.chord)}
                 </div>
               )}
             </div>
@@ -127,20 +205,38 @@ export const ChordLyricDisplay: React.FC<ChordLyricDisplayProps> = ({
   };
 
   return (
-    <div className={`chord-lyric-line mb-2 ${className}`}>
+    <div className={`chord-lyric-line mb-2 ${line.repeat ? 'flex items-end gap-3' : ''} ${className}`}>
       {renderContent()}
+      {line.repeat !== undefined && (
+        <span className="line-repeat text-xs font-semibold text-muted-foreground">
+          x{line.repeat}
+        </span>
+      )}
     </div>
   );
 };
 
+const getCommentStyle = (style: NonNullable<ChordLyricLine['comment']>) => {
+  switch (style) {
+    case 'italic': return 'bg-muted text-muted-foreground italic';
+    case 'box': return 'border border-border text-foreground';
+    case 'highlight': return 'bg-yellow-200 text-yellow-900 dark:bg-yellow-500/30 dark:text-yellow-100 font-medium';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
+
 interface SongSectionDisplayProps {
   section: {
     type: string;
     name?: string;
     content: ChordLyricLine[];
+    reference?: string;
+    repeat?: number;
   };
-  originalKey: string;
-  currentKey: string;
+  originalKey: Key;
+  currentKey: Key;
+  chordDefinitions?: ChordDefinition[];
+  instrument?: InstrumentProfile;
   className?: string;
 }
 
@@ -148,36 +244,55 @@ export const SongSectionDisplay: React.FC<SongSectionDisplayProps> = ({
   section,
   originalKey,
   currentKey,
+  chordDefinitions,
+  instrument,
   className = ''
 }) => {
-  const getSectionTypeColor = (type: string) => {
-    switch (type) {
-      case 'verse': return 'text-blue-600 dark:text-blue-400';
-      case 'chorus': return 'text-green-600 dark:text-green-400';
-      case 'bridge': return 'text-purple-600 dark:text-purple-400';
-      case 'intro': return 'text-gray-600 dark:text-gray-400';
-      case 'outro': return 'text-gray-600 dark:text-gray-400';
-      default: return 'text-foreground';
-    }
-  };
+  const sectionType = SectionTypes.get(section.type);
+
+  const isPreformatted = section.type === 'tab' || section.type === 'grid';
+  const repeatLabel = section.repeat ? ` (x${section.repeat})` : '';
+
+  // Recalled sections without their own lines render as a compact marker
+  if (section.reference && section.content.length === 0) {
+    return (
+      <div className={`song-section mb-8 ${className}`}>
+        <p className={`section-recall text-sm font-semibold uppercase tracking-wide ${sectionType.color}`}>
+          → {section.name || section.reference}{repeatLabel}
+        </p>
+      </div>
+    );
+  }
 
   return (
     <div className={`song-section mb-8 ${className}`}>
       {section.name && (
-        <h3 className={`section-header text-sm font-semibold uppercase tracking-wide mb-3 ${getSectionTypeColor(section.type)}`}>
-          {section.name}
+        <h3 className={`section-header text-sm font-semibold uppercase tracking-wide mb-3 ${sectionType.color}`}>
+          <span className="section-abbreviation inline-block min-w-[1.75rem] mr-2 px-1 text-center text-xs border border-current rounded opacity-70">
+            {sectionType.abbreviation}
+          </span>
+          {section.name}{repeatLabel}
         </h3>
       )}
-      <div className="section-content space-y-1">
-        {section.content.map((line, index) => (
-          <ChordLyricDisplay
-            key={index}
-            line={line}
-            originalKey={originalKey}
-            currentKey={currentKey}
-          />
-        ))}
-      </div>
+      {isPreformatted ? (
+        // Tab and grid blocks keep their column alignment
+        <pre className="section-content font-mono text-sm text-foreground whitespace-pre overflow-x-auto">
+          {section.content.map(line => line.lyrics).join('\n')}
+        </pre>
+      ) : (
+        <div className="section-content space-y-1">
+          {section.content.map((line, index) => (
+            <ChordLyricDisplay
+              key={index}
+              line={line}
+              originalKey={originalKey}
+              currentKey={currentKey}
+              chordDefinitions={chordDefinitions}
+              instrument={instrument}
+            />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -186,15 +301,26 @@ interface FullSongDisplayProps {
   song: {
     title: string;
     artist: string;
-    originalKey: string;
+    originalKey: Key;
+    tempo?: number;
+    timeSignature?: string;
     sections: Array<{
       type: string;
       name?: string;
       content: ChordLyricLine[];
+      reference?: string;
+      repeat?: number;
     }>;
+    chordDefinitions?: ChordDefinition[];
+    metadata?: {
+      ccli?: string;
+      copyright?: string;
+    };
   };
-  currentKey?: string;
+  currentKey?: Key;
   capoPosition?: number;
+  chordDisplay?: 'concert' | 'shapes'; // with a capo, chords as they sound or as fingered
+  flow?: string[]; // play the sections in this order instead of as written
   className?: string;
 }
 
@@ -202,9 +328,57 @@ export const FullSongDisplay: React.FC<FullSongDisplayProps> = ({
   song,
   currentKey,
   capoPosition = 0,
+  chordDisplay = 'concert',
+  flow,
   className = ''
 }) => {
-  const displayKey = currentKey || song.originalKey;
+  const { settings } = useSettings();
+  const instrument = Instruments.get(settings.instrument, settings.tuning);
+  const displayKey = ChordTransposer.inSongMode(currentKey || song.originalKey, song.originalKey);
+  // Transposed keys are labelled with their conventional spelling (Bb, not A#)
+  const isTransposed = !ChordTransposer.isSameKey(displayKey, song.originalKey);
+  const keyLabel = ChordTransposer.formatKey(isTransposed ? ChordTransposer.spellKey(displayKey) : song.originalKey);
+  // Capo players see the shapes they finger, transposed down by the capo and
+  // up by any down-tuning. Instruments that don't use a capo always read
+  // concert pitch.
+  const showShapes = chordDisplay === 'shapes' && instrument.capo &&
+    (capoPosition > 0 || instrument.pitchShift !== 0);
+  const chordKey = showShapes
+    ? ChordTransposer.getShapeKey(displayKey, capoPosition, instrument.pitchShift)
+    : displayKey;
+  // Shape diagrams are fingered as if the tuning had no overall shift
+  const diagramInstrument = showShapes ? Instruments.getShapeProfile(instrument) : instrument;
+  const tuningLabel = instrument.tuningId !== 'standard'
+    ? Instruments.getTuning(instrument.id, instrument.tuningId).name
+    : null;
+
+  // Optionally write recalled sections out in full
+  const sections = SongArrangement.arrange(song.sections, flow).map(section => {
+    if (!settings.expandSectionRecalls || !section.reference) return section;
+    const target = ChordProParser.findReferencedSection(song.sections, section);
+    return target ? { ...section, content: target.content } : section;
+  });
+
+  // Each distinct chord as displayed, in the order it first appears in the
+  // arrangement played. Recalls count the chords of the section they recall.
+  const playedSections = sections.map(section => section.reference && section.content.length === 0
+    ? ChordProParser.findReferencedSection(song.sections, section) ?? section
+    : section);
+  const chordsUsed = settings.showChordDiagrams
+    ? [...new Set(playedSections.flatMap(section => section.content.flatMap(line =>
+        line.comment ? [] : line.chords.map(chordPos => ChordGrammar.normalise(
+          ChordGrammar.simplify(
+            ChordTransposer.transposeChord(chordPos.chord, song.originalKey, chordKey, 0),
+            settings.chordSimplification
+          ),
+          settings.chordStyle
+        ))
+      )))]
+        .flatMap(chord => {
+          const diagram = ChordVoicings.getDiagram(chord, diagramInstrument, song.chordDefinitions);
+          return diagram ? [{ chord, diagram }] : [];
+        })
+    : [];
 
   return (
     <div className={`song-display ${className}`}>
@@ -216,24 +390,47 @@ export const FullSongDisplay: React.FC<FullSongDisplayProps> = ({
           {song.artist}
         </p>
         <div className="song-meta flex gap-4 text-sm text-muted-foreground">
-          <span>Key: {displayKey}</span>
+          <span>Key: {keyLabel}</span>
+          {settings.chordNotation !== 'letters' && (
+            <span>{settings.numberSystem === 'roman' ? 'I' : '1'} = {keyLabel}</span>
+          )}
           {capoPosition > 0 && <span>Capo: {capoPosition}</span>}
-          {currentKey && currentKey !== song.originalKey && (
-            <span className="text-primary">Transposed from {song.originalKey}</span>
+          {tuningLabel && <span>Tuning: {tuningLabel}</span>}
+          {showShapes && <span className="text-primary">Shapes in {ChordTransposer.formatKey(chordKey)}</span>}
+          {song.tempo && <span>♩ = {song.tempo}</span>}
+          {song.timeSignature && <span>{song.timeSignature}</span>}
+          {isTransposed && (
+            <span className="text-primary">Transposed from {ChordTransposer.formatKey(song.originalKey)}</span>
           )}
         </div>
+        {chordsUsed.length > 0 && (
+          <div className="chords-used mt-4 flex flex-wrap gap-4">
+            {chordsUsed.map(({ chord, diagram }) => (
+              <ChordDiagram key={chord} name={chord} diagram={diagram} />
+            ))}
+          </div>
+        )}
       </div>
       
       <div className="song-sections">
-        {song.sections.map((section, index) => (
+        {sections.map((section, index) => (
           <SongSectionDisplay
             key={index}
             section={section}
             originalKey={song.originalKey}
-            currentKey={displayKey}
+            currentKey={chordKey}
+            chordDefinitions={song.chordDefinitions}
+            instrument={diagramInstrument}
           />
         ))}
       </div>
+      
+      {(song.metadata?.copyright || song.metadata?.ccli) && (
+        <div className="song-footer mt-6 pt-4 border-t border-border text-xs text-muted-foreground space-y-1">
+          {song.metadata.copyright && <p>{song.metadata.copyright}</p>}
+          {song.metadata.ccli && <p>CCLI Song #{song.metadata.ccli}</p>}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -7,15 +7,41 @@ import {
   Volume2, 
   RotateCcw,
   Settings,
-  ArrowLeft
+  ArrowLeft,
+  ChevronsDown,
+  Minus,
+  Plus
 } from 'lucide-react';
-import type { Song, Setlist, LoopTrack } from '../types';
+import type { Song, Setlist, LoopTrack, Key } from '../types';
 import { FullSongDisplay } from './ChordLyricDisplay';
 import { ChordTransposer } from '../utils/chordTransposer';
+import { CapoSuggester } from '../utils/capoSuggester';
+import type { CapoSuggestion } from '../utils/capoSuggester';
 import { dataLoader } from '../utils/dataLoader';
 import { SongOverrideStorage } from '../utils/songOverrides';
 import { useSettings } from '../contexts/SettingsContext';
+import { Instruments } from '../utils/instruments';
 import { useLoopPlayer } from '../utils/useLoopPlayer';
+import { useAutoScroll } from '../utils/useAutoScroll';
+import { SongTiming } from '../utils/songTiming';
+import { ChartScroller } from '../utils/chartScroller';
+import { InputMapper } from '../utils/inputMappings';
+import type { PerformanceAction } from '../utils/inputMappings';
+import { midiDevices } from '../utils/midiDevices';
+import { useMidiInput } from '../utils/useMidiInput';
+import { SongArrangement } from '../utils/songArrangement';
+import { SectionRoadmap } from './SectionRoadmap';
+
+// Height of the fixed performance header, kept clear when auto-scrolling
+const HEADER_HEIGHT = 64;
+// Height of the section roadmap row under it
+const ROADMAP_HEIGHT = 40;
+// Auto-scroll speed range and nudge step, as multiples of the song's pace
+const MIN_SCROLL_SPEED = 0.5;
+const MAX_SCROLL_SPEED = 2;
+const SCROLL_SPEED_STEP = 0.1;
+// MIDI controller values at or above this count as a pedal press
+const MIDI_CC_PRESSED = 64;
 
 interface PerformanceViewProps {
   setlist: Setlist;
@@ -30,9 +56,13 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
   onBack,
   className = ''
 }) => {
-  const { settings } = useSettings();
+  const { settings, updateSettings } = useSettings();
+  const instrument = useMemo(
+    () => Instruments.get(settings.instrument, settings.tuning),
+    [settings.instrument, settings.tuning]
+  );
   const [currentSongIndex, setCurrentSongIndex] = useState(0);
-  const [currentKey, setCurrentKey] = useState<string>('');
+  const [currentKey, setCurrentKey] = useState<Key>(songs[0]?.originalKey ?? ChordTransposer.DEFAULT_KEY);
   const [capoPosition, setCapoPosition] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.7);
@@ -40,6 +70,8 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
   const [currentLoop, setCurrentLoop] = useState<LoopTrack | null>(null);
   const [showTransposeControls, setShowTransposeControls] = useState(false);
   const [hasAutoStarted, setHasAutoStarted] = useState(false);
+  const [scrollSpeed, setScrollSpeed] = useState(1);
+  const songContentRef = useRef<HTMLDivElement>(null);
 
   const currentSong = songs[currentSongIndex];
   const setlistSong = setlist.songs.find(s => s.songId === currentSong?.id);
@@ -50,22 +82,47 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
       const songOverride = SongOverrideStorage.get(currentSong.id);
       
       // Set initial key (setlist custom key > override > original key)
-      const initialKey = setlistSong?.customKey || 
-                        songOverride?.customKey || 
-                        currentSong.originalKey;
+      const initialKey = ChordTransposer.inSongMode(
+        setlistSong?.customKey || songOverride?.customKey || currentSong.originalKey,
+        currentSong.originalKey
+      );
       
       // Set initial capo position (setlist custom capo > override > original capo)
       const initialCapo = setlistSong?.customCapo ?? 
                          songOverride?.customCapo ?? 
                          currentSong.capoPosition ?? 0;
       setCapoPosition(initialCapo);
+      setScrollSpeed(SongOverrideStorage.getScrollSpeed(currentSong.id));
 
       // Always update key when song changes - this will trigger the loop loading
-      console.log(`Song changed: ${currentSong.title}, setting key to: ${initialKey}, capo: ${initialCapo}`);
+      console.log(`Song changed: ${currentSong.title}, setting key to: ${ChordTransposer.formatKey(initialKey)}, capo: ${initialCapo}`);
       setCurrentKey(initialKey);
     }
   }, [currentSong, setlistSong]);
 
+  // The setlist's arrangement of the song, or the song as written
+  const flow = setlistSong?.flow;
+  const roadmapEntries = useMemo(
+    () => currentSong ? SongArrangement.getEntries(currentSong.sections, flow) : [],
+    [currentSong, flow]
+  );
+  const showRoadmap = roadmapEntries.length > 1;
+  const headerHeight = HEADER_HEIGHT + (showRoadmap ? ROADMAP_HEIGHT : 0);
+
+  // Auto-scroll paced by the song's tempo and length
+  const sectionDurations = useMemo(
+    () => currentSong ? SongTiming.getSectionDurations(currentSong, flow) : [],
+    [currentSong, flow]
+  );
+  const autoScroll = useAutoScroll({
+    contentRef: songContentRef,
+    sectionDurations,
+    speed: scrollSpeed,
+    holdAtSectionStart: settings.autoScrollHoldAtSections,
+    topOffset: headerHeight
+  });
+  const songDuration = sectionDurations.reduce((total, seconds) => total + seconds, 0);
+
   const loopOptions = useMemo(() => ({
     crossfadeMs: settings.loopBlendDuration,
     fadeOutMs: settings.loopFadeOutDuration,
@@ -76,26 +133,36 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
 
   const autoStartLoop = useCallback(async (loop: LoopTrack) => {
     try {
-      const id = `${loop.key}-${loop.style}`;
+      const id = `${ChordTransposer.formatKey(loop.key)}-${loop.style}`;
       await loopPlayer.playLoop({ id, url: loop.filePath });
       setIsPlaying(true);
     } catch (error) {
       console.error('Error auto-starting loop:', error);
     }
   }, [loopPlayer]);
-  // Effective key for display
-  const effectiveKey = useMemo(() => {
-    return ChordTransposer.getEffectiveKey(currentKey, capoPosition);
-  }, [currentKey, capoPosition]);
-
-  // Load/select loops when effective key changes
+  // Key of the shapes fingered with the capo, for display. The band and the
+  // pads still sound in currentKey.
+  const shapeKey = instrument.capo && (capoPosition > 0 || instrument.pitchShift !== 0)
+    ? ChordTransposer.getShapeKey(currentKey, capoPosition, instrument.pitchShift)
+    : null;
+
+  // Capo positions that turn the song's chords into open shapes
+  const capoSuggestions = useMemo(() => {
+    if (!currentSong || !currentKey) return [];
+    const chords = CapoSuggester.getSongChords(currentSong)
+      .map(chord => ChordTransposer.transposeChord(chord, currentSong.originalKey, currentKey));
+    return CapoSuggester.suggest(chords, currentKey, 3, instrument);
+  }, [currentSong, currentKey, instrument]);
+
+  // Load/select loops when the concert key changes. Pads follow the key the
+  // song sounds in, so moving the capo never swaps them.
   useEffect(() => {
     if (!currentKey) return;
     let cancelled = false;
     (async () => {
       try {
-        console.log(`Loading loops for key: ${effectiveKey}, currentSongIndex: ${currentSongIndex}`);
-        const loops = await dataLoader.getLoopsByKey(effectiveKey);
+        console.log(`Loading loops for key: ${ChordTransposer.formatKey(currentKey)}, currentSongIndex: ${currentSongIndex}`);
+        const loops = await dataLoader.getLoopsByKey(currentKey);
         if (cancelled) return;
         setAvailableLoops(loops);
         if (loops.length > 0) {
@@ -109,14 +176,14 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
       }
     })();
     return () => { cancelled = true; };
-  }, [effectiveKey, currentSongIndex, currentKey, currentLoop]);
+  }, [currentSongIndex, currentKey, currentLoop]);
 
   // Auto-start or crossfade when loop selection changes
   useEffect(() => {
     const doStart = async () => {
       if (!settings.autoStartLoops) return;
       if (!currentLoop) return;
-      const id = `${currentLoop.key}-${currentLoop.style}`;
+      const id = `${ChordTransposer.formatKey(currentLoop.key)}-${currentLoop.style}`;
       if (loopCurrentId === id) return;
       try {
         await autoStartLoop(currentLoop);
@@ -169,23 +236,109 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
   };
 
 
+  // Cycle chord names → numbers → both, for calling the song in numbers
+  const tonicNumber = settings.numberSystem === 'roman' ? 'I' : '1';
+  const cycleChordNotation = () => {
+    const order = ['letters', 'numbers', 'both'] as const;
+    const next = order[(order.indexOf(settings.chordNotation) + 1) % order.length];
+    updateSettings({ chordNotation: next });
+  };
+
+  const nudgeScrollSpeed = (delta: number) => {
+    const next = Math.round(Math.min(MAX_SCROLL_SPEED, Math.max(MIN_SCROLL_SPEED, scrollSpeed + delta)) * 10) / 10;
+    setScrollSpeed(next);
+    SongOverrideStorage.setScrollSpeed(currentSong.id, next);
+  };
+
   const handleVolumeChange = (newVolume: number) => {
     setVolume(newVolume);
     loopPlayer.setVolume(newVolume);
   };
 
   const transposeUp = () => {
-    const newKey = ChordTransposer.transposeChordBySemitones(currentKey, 1);
+    const newKey = ChordTransposer.transposeKey(currentKey, 1);
     setCurrentKey(newKey);
     saveOverrides(newKey, capoPosition);
   };
 
   const transposeDown = () => {
-    const newKey = ChordTransposer.transposeChordBySemitones(currentKey, -1);
+    const newKey = ChordTransposer.transposeKey(currentKey, -1);
     setCurrentKey(newKey);
     saveOverrides(newKey, capoPosition);
   };
 
+  // Keys, page turners and foot pedals
+  const performAction = (action: PerformanceAction) => {
+    const content = songContentRef.current;
+    switch (action) {
+      case 'scroll-down':
+      case 'scroll-up':
+        if (content) ChartScroller.scrollPage(content, action === 'scroll-down' ? 1 : -1, headerHeight);
+        break;
+      case 'next-section':
+      case 'previous-section':
+        if (content) ChartScroller.scrollToSection(content, action === 'next-section' ? 1 : -1, headerHeight);
+        break;
+      case 'next-song':
+        goToNextSong();
+        break;
+      case 'previous-song':
+        goToPreviousSong();
+        break;
+      case 'toggle-pad':
+        void togglePlayback();
+        break;
+      case 'transpose-up':
+        transposeUp();
+        break;
+      case 'transpose-down':
+        transposeDown();
+        break;
+    }
+  };
+  const performActionRef = useRef(performAction);
+  useEffect(() => {
+    performActionRef.current = performAction;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const input = InputMapper.fromKeyboardEvent(event);
+      const action = input && InputMapper.findAction(settings.inputMappings, input);
+      if (!action) return;
+      event.preventDefault();
+      performActionRef.current(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [settings.inputMappings]);
+
+  // Controllers send a CC value on press and another on release, and
+  // expression pedals stream them, so CCs fire once as they cross the middle
+  const midiControlValuesRef = useRef(new Map<string, number>());
+  useMidiInput(settings.midiEnabled, message => {
+    const action = InputMapper.findAction(settings.inputMappings, message.input);
+    if (!action) return;
+    if (InputMapper.isContinuous(action)) {
+      if (message.kind === 'cc' && action === 'pad-volume') handleVolumeChange(message.value / 127);
+      return;
+    }
+    if (message.kind === 'cc') {
+      const previous = midiControlValuesRef.current.get(message.input) ?? 0;
+      midiControlValuesRef.current.set(message.input, message.value);
+      if (previous >= MIDI_CC_PRESSED || message.value < MIDI_CC_PRESSED) return;
+    }
+    performAction(action);
+  });
+
+  // Patch changes follow the setlist: the first song selects program 1
+  useEffect(() => {
+    if (!settings.midiEnabled || !settings.midiProgramChange) return;
+    void midiDevices.sendProgramChange(currentSongIndex, settings.midiProgramChannel);
+  }, [currentSongIndex, settings.midiEnabled, settings.midiProgramChange, settings.midiProgramChannel]);
+
   const capoUp = () => {
     if (capoPosition < 12) {
       const newCapo = capoPosition + 1;
@@ -202,7 +355,17 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
     }
   };
 
-  const saveOverrides = (key: string, capo: number) => {
+  // Only the capo and the chord display change: the concert key, and with it
+  // the pad, stay as they are
+  const applyCapoSuggestion = (suggestion: CapoSuggestion) => {
+    setCapoPosition(suggestion.capo);
+    saveOverrides(currentKey, suggestion.capo);
+    if (suggestion.capo > 0) {
+      updateSettings({ capoDisplay: 'shapes' });
+    }
+  };
+
+  const saveOverrides = (key: Key, capo: number) => {
     if (!currentSong) return;
     
     // Don't save if setlist has custom settings (setlist overrides take precedence)
@@ -212,7 +375,7 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
     }
     
     // Check if values are different from original
-    const isKeyDifferent = key !== currentSong.originalKey;
+    const isKeyDifferent = !ChordTransposer.isSameKey(key, currentSong.originalKey);
     const isCapoDifferent = capo !== (currentSong.capoPosition ?? 0);
     
     if (isKeyDifferent || isCapoDifferent) {
@@ -222,23 +385,23 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
         isKeyDifferent ? key : undefined,
         isCapoDifferent ? capo : undefined
       );
-      console.log(`Saved override for ${currentSong.title}: key=${key}, capo=${capo}`);
+      console.log(`Saved override for ${currentSong.title}: key=${ChordTransposer.formatKey(key)}, capo=${capo}`);
     } else {
       // Remove override if back to original values
-      SongOverrideStorage.remove(currentSong.id);
+      SongOverrideStorage.clearTransposition(currentSong.id);
       console.log(`Removed override for ${currentSong.title} - back to original values`);
     }
   };
 
   const resetToOriginal = () => {
-    const originalKey = setlistSong?.customKey || currentSong.originalKey;
+    const originalKey = ChordTransposer.inSongMode(setlistSong?.customKey || currentSong.originalKey, currentSong.originalKey);
     const originalCapo = setlistSong?.customCapo ?? currentSong.capoPosition ?? 0;
     setCurrentKey(originalKey);
     setCapoPosition(originalCapo);
     
     // Clear overrides if not using setlist custom settings
     if (!setlistSong?.customKey && !setlistSong?.customCapo) {
-      SongOverrideStorage.remove(currentSong.id);
+      SongOverrideStorage.clearTransposition(currentSong.id);
       console.log(`Cleared overrides for ${currentSong.title}`);
     }
   };
@@ -296,6 +459,16 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
               >
                 <ChevronRight size={18} />
               </button>
+              <button
+                onClick={cycleChordNotation}
+                aria-label="Chord notation"
+                title="Show chord names, numbers or both"
+                className="touch-target px-2 py-2 rounded-lg bg-secondary text-secondary-foreground text-xs font-mono font-bold min-w-[2.5rem]"
+              >
+                {settings.chordNotation === 'letters' ? ChordTransposer.formatKey(currentKey)
+                  : settings.chordNotation === 'numbers' ? tonicNumber
+                  : `${tonicNumber} ${ChordTransposer.formatKey(currentKey)}`}
+              </button>
               <button
                 onClick={() => setShowTransposeControls(!showTransposeControls)}
                 aria-label="Performance settings"
@@ -306,13 +479,23 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
             </div>
           </div>
 
+          {showRoadmap && (
+            <SectionRoadmap
+              entries={roadmapEntries}
+              sections={currentSong.sections}
+              contentRef={songContentRef}
+              topOffset={headerHeight}
+              className="h-10 border-t border-border"
+            />
+          )}
+
         {/* Transpose controls */}
         {showTransposeControls && (
           <div className="p-3 bg-secondary border-t border-border">
             <div className="flex items-center justify-between mb-3">
               <div className="text-sm">
-                <div className="font-medium">Chord Key: {currentKey}</div>
-                <div className="text-muted-foreground">Effective Key: {effectiveKey}</div>
+                <div className="font-medium">Chord Key: {ChordTransposer.formatKey(currentKey)}</div>
+                {shapeKey && <div className="text-muted-foreground">Shape Key: {ChordTransposer.formatKey(shapeKey)}</div>}
               </div>
               <button
                 onClick={resetToOriginal}
@@ -342,6 +525,23 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
               </button>
             </div>
 
+            {/* Chord simplification for less experienced players */}
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {([['full', 'Full Chords'], ['simplified', 'Simplified'], ['triads', 'Triads Only']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => updateSettings({ chordSimplification: value })}
+                  className={`touch-target px-3 py-1 rounded border text-sm ${
+                    settings.chordSimplification === value
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'bg-background text-foreground border-border'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
             {/* Capo Controls */}
             <div className="flex items-center gap-2">
               <button
@@ -362,18 +562,59 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
                 +
               </button>
             </div>
+
+            {/* Capo chord display: concert pitch or the shapes played */}
+            {instrument.capo && (
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                {([['concert', 'Concert Pitch'], ['shapes', 'Capo Shapes']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateSettings({ capoDisplay: value })}
+                    className={`touch-target px-3 py-1 rounded border text-sm ${
+                      settings.capoDisplay === value
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-background text-foreground border-border'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Capo suggestions from the song's chords */}
+            {capoSuggestions.length > 0 && (
+              <div className="mt-3 space-y-1">
+                <div className="text-xs font-medium text-muted-foreground">Suggested Capo</div>
+                {capoSuggestions.map(suggestion => (
+                  <button
+                    key={suggestion.capo}
+                    onClick={() => applyCapoSuggestion(suggestion)}
+                    className={`w-full text-left px-3 py-1 rounded border text-sm ${
+                      suggestion.capo === capoPosition
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'bg-background text-foreground border-border hover:bg-accent'
+                    }`}
+                  >
+                    {CapoSuggester.describe(suggestion)}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
 
       {/* Spacer to offset fixed header height */}
-      <div className="h-16" />
+      <div style={{ height: headerHeight }} />
       {/* Song content (no inner scroll; main handles scrolling) */}
-      <div className="song-content flex-1 p-4 pt-2 performance-content-with-audio">
+      <div ref={songContentRef} className="song-content flex-1 p-4 pt-2 performance-content-with-audio">
         <FullSongDisplay
           song={currentSong}
           currentKey={currentKey}
           capoPosition={capoPosition}
+          chordDisplay={settings.capoDisplay}
+          flow={flow}
         />
       </div>
 
@@ -381,6 +622,41 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
 
       {/* Audio controls */}
       <div className="sticky-audio-controls p-4">
+        {/* Auto-scroll */}
+        <div className="flex items-center justify-center gap-2 mb-3">
+          <button
+            onClick={autoScroll.toggle}
+            aria-label={autoScroll.isScrolling ? 'Pause auto-scroll' : 'Start auto-scroll'}
+            className={`touch-target flex items-center gap-1 px-3 py-1 rounded border text-sm ${
+              autoScroll.isScrolling
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'bg-background text-foreground border-border'
+            }`}
+          >
+            {autoScroll.isScrolling ? <Pause size={14} /> : <ChevronsDown size={14} />}
+            Scroll
+          </button>
+          <button
+            onClick={() => nudgeScrollSpeed(-SCROLL_SPEED_STEP)}
+            disabled={scrollSpeed <= MIN_SCROLL_SPEED}
+            aria-label="Scroll slower"
+            className="touch-target px-2 py-1 bg-background text-foreground rounded border border-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Minus size={14} />
+          </button>
+          <span className="text-sm text-muted-foreground min-w-[5.5rem] text-center">
+            {scrollSpeed.toFixed(1)}× • {SongTiming.formatDuration(songDuration / scrollSpeed)}
+          </span>
+          <button
+            onClick={() => nudgeScrollSpeed(SCROLL_SPEED_STEP)}
+            disabled={scrollSpeed >= MAX_SCROLL_SPEED}
+            aria-label="Scroll faster"
+            className="touch-target px-2 py-1 bg-background text-foreground rounded border border-border disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus size={14} />
+          </button>
+        </div>
+
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <button
@@ -394,7 +670,7 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
             {currentLoop && (
               <div className="text-sm">
                 <p className="text-foreground font-medium">{currentLoop.style}</p>
-                <p className="text-muted-foreground">Key: {currentLoop.key}</p>
+                <p className="text-muted-foreground">Key: {ChordTransposer.formatKey(currentLoop.key)}</p>
               </div>
             )}
           </div>
@@ -415,7 +691,7 @@ export const PerformanceView: React.FC<PerformanceViewProps> = ({
 
         {!currentLoop && availableLoops.length === 0 && (
           <p className="text-xs text-muted-foreground mt-2 text-center">
-            No backing tracks available for key {effectiveKey}
+            No backing tracks available for key {ChordTransposer.formatKey(currentKey)}
           </p>
         )}
       </div>
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import type { SongSection } from '../types';
+import type { ArrangementEntry } from '../utils/songArrangement';
+import { SectionTypes } from '../utils/sectionTypes';
+import { ChartScroller } from '../utils/chartScroller';
+
+interface SectionRoadmapProps {
+  entries: ArrangementEntry[]; // One per rendered .song-section, in order
+  sections: SongSection[]; // The song's sections, as written
+  contentRef: RefObject<HTMLElement | null>; // Element holding the rendered chart
+  topOffset?: number; // Pixels hidden behind fixed headers
+  className?: string;
+}
+
+// Roadmap of the song's sections (V1 C V2 C B C T): tap one to jump to it.
+// The section at the top of the screen is highlighted as the chart scrolls.
+export const SectionRoadmap: React.FC<SectionRoadmapProps> = ({
+  entries,
+  sections,
+  contentRef,
+  topOffset = 0,
+  className = ''
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const content = contentRef.current;
+      if (content) setCurrentIndex(ChartScroller.getCurrentSectionIndex(content, topOffset));
+    };
+    // Capture scrolls of whichever element holds the chart
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    update();
+    window.addEventListener('scroll', handleScroll, true);
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      window.removeEventListener('scroll', handleScroll, true);
+      window.removeEventListener('resize', handleScroll);
+      cancelAnimationFrame(frame);
+    };
+  }, [entries, contentRef, topOffset]);
+
+  // Keep the highlighted entry visible in long roadmaps
+  useEffect(() => {
+    const bar = barRef.current;
+    const button = bar?.children[currentIndex] as HTMLElement | undefined;
+    if (!bar || !button) return;
+    if (button.offsetLeft < bar.scrollLeft || button.offsetLeft + button.offsetWidth > bar.scrollLeft + bar.clientWidth) {
+      bar.scrollTo({ left: button.offsetLeft - bar.clientWidth / 2 + button.offsetWidth / 2, behavior: 'smooth' });
+    }
+  }, [currentIndex]);
+
+  const jumpTo = (index: number) => {
+    const content = contentRef.current;
+    if (content) ChartScroller.scrollToSectionIndex(content, index, topOffset);
+  };
+
+  return (
+    <div
+      ref={barRef}
+      className={`section-roadmap relative flex items-center gap-1 overflow-x-auto px-2 ${className}`}
+      role="navigation"
+      aria-label="Song sections"
+    >
+      {entries.map((entry, index) => {
+        const section = sections[entry.sectionIndex];
+        const sectionType = SectionTypes.get(section.type);
+        const isCurrent = index === currentIndex;
+        return (
+          <button
+            key={index}
+            onClick={() => jumpTo(index)}
+            title={section.name || sectionType.label}
+            aria-current={isCurrent ? 'location' : undefined}
+            className={`shrink-0 px-2 py-0.5 rounded border text-xs font-mono font-semibold transition-colors ${
+              isCurrent
+                ? 'bg-primary text-primary-foreground border-primary'
+                : `bg-background border-border hover:bg-accent ${sectionType.color}`
+            }`}
+          >
+            {entry.label}
+            {(entry.repeat ?? 1) > 1 && <span className="opacity-70"> ×{entry.repeat}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -25,10 +25,13 @@ import {
   Plus, 
   GripVertical, 
   X, 
-  Music
+  Music,
+  ListOrdered
 } from 'lucide-react';
-import type { Song, SetlistSong } from '../types';
+import type { Song, SetlistSong, Key } from '../types';
 import { useSetlistContext, useSetlistSongs, useSongMetadata } from '../contexts/SetlistContext';
+import { ArrangementEditor } from './ArrangementEditor';
+import { ChordTransposer } from '../utils/chordTransposer';
 
 interface SetlistEditorProps {
   setlistId: string | null;
@@ -48,6 +51,7 @@ export const SetlistEditor: React.FC<SetlistEditorProps> = ({
     addSongToSetlist, 
     removeSongFromSetlist, 
     reorderSongs,
+    updateSetlistSong,
     editSetlist,
     clearCurrentSetlist
   } = useSetlistContext();
@@ -125,6 +129,11 @@ export const SetlistEditor: React.FC<SetlistEditorProps> = ({
     }
   };
 
+  // Failures are shown by the arrangement editor that made the change
+  const handleFlowChange = (songId: string, flow: string[] | undefined) => {
+    updateSetlistSong(songId, { flow });
+  };
+
   const handleDragStart = (event: DragStartEvent) => {
     setActiveId(event.active.id as string);
   };
@@ -151,7 +160,7 @@ export const SetlistEditor: React.FC<SetlistEditorProps> = ({
     return (
       song.title.toLowerCase().includes(query) ||
       song.artist.toLowerCase().includes(query) ||
-      song.originalKey.toLowerCase().includes(query) ||
+      ChordTransposer.formatKey(song.originalKey).toLowerCase().includes(query) ||
       song.tags?.some(tag => tag.toLowerCase().includes(query))
     );
   });
@@ -286,6 +295,7 @@ export const SetlistEditor: React.FC<SetlistEditorProps> = ({
                           setlistSong={setlistSong}
                           index={index}
                           onRemove={() => handleRemoveSong(song.id)}
+                          onFlowChange={(flow) => handleFlowChange(song.id, flow)}
                         />
                       );
                     })}
@@ -356,6 +366,7 @@ interface SortableSetlistSongItemProps {
   setlistSong?: SetlistSong;
   index: number;
   onRemove: () => void;
+  onFlowChange: (flow: string[] | undefined) => void;
 }
 
 const SortableSetlistSongItem: React.FC<SortableSetlistSongItemProps> = (props) => {
@@ -390,6 +401,7 @@ interface SetlistSongItemProps {
   setlistSong?: SetlistSong;
   index: number;
   onRemove: () => void;
+  onFlowChange?: (flow: string[] | undefined) => void;
   dragHandleProps?: Record<string, unknown>;
   isDragging?: boolean;
 }
@@ -399,9 +411,12 @@ const SetlistSongItem: React.FC<SetlistSongItemProps> = ({
   setlistSong,
   index,
   onRemove,
+  onFlowChange,
   dragHandleProps,
   isDragging = false
 }) => {
+  const [showArrangement, setShowArrangement] = useState(false);
+
   return (
     <div className={`setlist-song-item bg-card border border-border rounded-lg p-4 ${isDragging ? 'shadow-lg' : 'hover:bg-accent/50'} transition-colors`}>
       <div className="flex items-center gap-3">
@@ -420,16 +435,32 @@ const SetlistSongItem: React.FC<SetlistSongItemProps> = ({
           <h4 className="font-medium text-foreground truncate">{song.title}</h4>
           <p className="text-sm text-muted-foreground truncate">{song.artist}</p>
           <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-            <span>Key: {setlistSong?.customKey || song.originalKey}</span>
+            <span>Key: {ChordTransposer.formatKey(ChordTransposer.inSongMode(setlistSong?.customKey || song.originalKey, song.originalKey))}</span>
             {(setlistSong?.customCapo !== undefined || song.capoPosition) && (
               <span>Capo: {setlistSong?.customCapo ?? song.capoPosition}</span>
             )}
           </div>
+          {setlistSong?.flow && (
+            <p className="text-xs text-muted-foreground mt-1 font-mono truncate">Flow: {setlistSong.flow.join(' ')}</p>
+          )}
           {setlistSong?.notes && (
             <p className="text-xs text-muted-foreground mt-1 italic">{setlistSong.notes}</p>
           )}
         </div>
         
+        {onFlowChange && (
+          <button
+            onClick={() => setShowArrangement(!showArrangement)}
+            aria-label="Edit arrangement"
+            aria-expanded={showArrangement}
+            title="Edit arrangement"
+            className={`touch-target p-2 transition-colors ${
+              showArrangement || setlistSong?.flow ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <ListOrdered size={16} />
+          </button>
+        )}
         <button
           onClick={onRemove}
           className="touch-target p-2 text-muted-foreground hover:text-destructive transition-colors"
@@ -437,13 +468,23 @@ const SetlistSongItem: React.FC<SetlistSongItemProps> = ({
           <X size={16} />
         </button>
       </div>
+
+      {showArrangement && onFlowChange && (
+        <ArrangementEditor
+          key={song.id}
+          song={song}
+          flow={setlistSong?.flow}
+          onChange={onFlowChange}
+          className="mt-3 pt-3 border-t border-border"
+        />
+      )}
     </div>
   );
 };
 
 // Library song item component
 interface LibrarySongItemProps {
-  song: { id: string; title: string; artist: string; originalKey: string; capoPosition?: number };
+  song: { id: string; title: string; artist: string; originalKey: Key; capoPosition?: number };
   onAdd: () => void;
 }
 
@@ -455,7 +496,7 @@ const LibrarySongItem: React.FC<LibrarySongItemProps> = ({ song, onAdd }) => {
           <h4 className="font-medium text-foreground truncate">{song.title}</h4>
           <p className="text-sm text-muted-foreground truncate">{song.artist}</p>
           <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
-            <span>Key: {song.originalKey}</span>
+            <span>Key: {ChordTransposer.formatKey(song.originalKey)}</span>
             {song.capoPosition && <span>Capo: {song.capoPosition}</span>}
           </div>
         </div>
@@ -1,7 +1,12 @@
-import React from 'react';
-import { Moon, Sun, Palette, Info, Github, Music, RefreshCw, GitBranch, Clock } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Moon, Sun, Palette, Info, Github, Music, RefreshCw, GitBranch, Clock, FileText, Repeat, Hash, Type, Grid3x3, Guitar, SlidersHorizontal, ChevronsDown, Keyboard, X, RotateCcw, Piano, AlertTriangle } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { Instruments } from '../utils/instruments';
+import { DEFAULT_INPUT_MAPPINGS, InputMapper, PERFORMANCE_ACTIONS } from '../utils/inputMappings';
+import type { PerformanceAction } from '../utils/inputMappings';
+import { midiDevices } from '../utils/midiDevices';
+import { useMidiInput } from '../utils/useMidiInput';
 
 interface SettingsViewProps {
   className?: string;
@@ -10,6 +15,40 @@ interface SettingsViewProps {
 export const SettingsView: React.FC<SettingsViewProps> = ({ className = '' }) => {
   const { theme, toggleTheme } = useTheme();
   const { settings, updateSettings } = useSettings();
+  // Action waiting for a key press to assign to it
+  const [learningAction, setLearningAction] = useState<PerformanceAction | null>(null);
+  const [midiDeviceNames, setMidiDeviceNames] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!learningAction) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        setLearningAction(null);
+        return;
+      }
+      const input = InputMapper.fromKeyboardEvent(event);
+      if (!input || InputMapper.isContinuous(learningAction)) return;
+      updateSettings({ inputMappings: InputMapper.assign(settings.inputMappings, learningAction, input) });
+      setLearningAction(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [learningAction, settings.inputMappings, updateSettings]);
+
+  // MIDI learn: the next note, program change or pressed controller
+  useMidiInput(settings.midiEnabled && learningAction !== null, message => {
+    if (!learningAction) return;
+    if (InputMapper.isContinuous(learningAction) ? message.kind !== 'cc' : message.kind === 'cc' && message.value < 64) return;
+    updateSettings({ inputMappings: InputMapper.assign(settings.inputMappings, learningAction, message.input) });
+    setLearningAction(null);
+  });
+
+  useEffect(() => {
+    if (!settings.midiEnabled) return;
+    void midiDevices.getDeviceNames().then(setMidiDeviceNames);
+  }, [settings.midiEnabled]);
 
   // Get git info from build-time injection
   const getGitInfo = () => {
@@ -119,6 +158,278 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ className = '' }) =>
           </div>
         </div>
 
+        {/* Chart Display Section */}
+        <div className="settings-section">
+          <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+            <FileText size={20} />
+            Chart Display
+          </h2>
+          
+          <div className="settings-items space-y-4">
+            {/* Expand Recalled Sections Toggle */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Repeat size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">Expand Repeated Sections</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Write out a recalled chorus in full instead of showing a compact "→ Chorus" marker
+                    </p>
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => updateSettings({ expandSectionRecalls: !settings.expandSectionRecalls })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                    settings.expandSectionRecalls 
+                      ? 'bg-blue-600 focus:ring-blue-500' 
+                      : 'bg-gray-300 focus:ring-gray-400'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                      settings.expandSectionRecalls 
+                        ? 'translate-x-6' 
+                        : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {/* Auto-scroll Section Hold Toggle */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <ChevronsDown size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">Hold Sections When Auto-scrolling</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Keep each section's start in view for a while before scrolling on, so the next section is always on screen
+                    </p>
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => updateSettings({ autoScrollHoldAtSections: !settings.autoScrollHoldAtSections })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                    settings.autoScrollHoldAtSections 
+                      ? 'bg-blue-600 focus:ring-blue-500' 
+                      : 'bg-gray-300 focus:ring-gray-400'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                      settings.autoScrollHoldAtSections 
+                        ? 'translate-x-6' 
+                        : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {/* Chord Diagrams Toggle */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Grid3x3 size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">Chord Diagrams</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Show diagrams of the chords used at the top of each song. Hover or tap any chord to see its diagram.
+                    </p>
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => updateSettings({ showChordDiagrams: !settings.showChordDiagrams })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                    settings.showChordDiagrams 
+                      ? 'bg-blue-600 focus:ring-blue-500' 
+                      : 'bg-gray-300 focus:ring-gray-400'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                      settings.showChordDiagrams 
+                        ? 'translate-x-6' 
+                        : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {/* Strict ChordPro Toggle */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <AlertTriangle size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">Strict Chart Checking</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Refuse to open library songs whose ChordPro has warnings or errors, to catch problems before a gig
+                    </p>
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => updateSettings({ strictChordPro: !settings.strictChordPro })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                    settings.strictChordPro 
+                      ? 'bg-blue-600 focus:ring-blue-500' 
+                      : 'bg-gray-300 focus:ring-gray-400'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                      settings.strictChordPro 
+                        ? 'translate-x-6' 
+                        : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            {/* Chord Notation */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <Hash size={20} />
+                <div>
+                  <h3 className="font-medium text-foreground">Chord Notation</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Show chord names, scale-degree numbers relative to the key, or both stacked
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2 mb-3">
+                {([['letters', 'Letters'], ['numbers', 'Numbers'], ['both', 'Both']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateSettings({ chordNotation: value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      settings.chordNotation === value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {([['nashville', 'Nashville (5/7, 6m)'], ['roman', 'Roman (V/7, vi)']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateSettings({ numberSystem: value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      settings.numberSystem === value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Chord Style */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <Type size={20} />
+                <div>
+                  <h3 className="font-medium text-foreground">Chord Style</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Write every chord symbol the same way, whatever the chart uses
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['as-written', 'As Written'],
+                  ['standard', 'Standard (Cmaj7, Cdim)'],
+                  ['short', 'Short (CM7, C°)'],
+                  ['jazz', 'Jazz (CΔ7, C-7, Cø)']
+                ] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => updateSettings({ chordStyle: value })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      settings.chordStyle === value
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Instrument */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center gap-3 mb-3">
+                <Guitar size={20} />
+                <div>
+                  <h3 className="font-medium text-foreground">Instrument</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Chord diagrams, capo shapes and suggestions follow your instrument. Bass shows just the note to play.
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {Instruments.getAll().map(instrument => (
+                  <button
+                    key={instrument.id}
+                    onClick={() => updateSettings({ instrument: instrument.id })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      settings.instrument === instrument.id
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                    }`}
+                  >
+                    {instrument.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Tuning, for instruments that have alternate tunings */}
+            {Instruments.getTunings(settings.instrument).length > 1 && (
+              <div className="setting-item bg-card border border-border rounded-lg p-4">
+                <div className="flex items-center gap-3 mb-3">
+                  <SlidersHorizontal size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">Tuning</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Capo shapes move to match a down-tuned instrument, and diagrams use voicings for the tuning
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {Instruments.getTunings(settings.instrument).map(tuning => (
+                    <button
+                      key={tuning.id}
+                      onClick={() => updateSettings({ tuning: tuning.id })}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        Instruments.getTuning(settings.instrument, settings.tuning).id === tuning.id
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                      }`}
+                    >
+                      {tuning.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Audio Section */}
         <div className="settings-section">
           <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
@@ -208,6 +519,156 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ className = '' }) =>
           </div>
         </div>
 
+        {/* Pedals & Shortcuts Section */}
+        <div className="settings-section">
+          <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
+            <Keyboard size={20} />
+            Pedals & Shortcuts
+          </h2>
+
+          <div className="space-y-4">
+            {/* MIDI Controllers Toggle */}
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <Piano size={20} />
+                  <div>
+                    <h3 className="font-medium text-foreground">MIDI Controllers</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {!midiDevices.isSupported()
+                        ? 'This browser does not support Web MIDI.'
+                        : settings.midiEnabled
+                          ? midiDeviceNames.length > 0
+                            ? `Connected: ${midiDeviceNames.join(', ')}`
+                            : 'No MIDI devices found. Connect a controller and reopen settings.'
+                          : 'Use notes, CCs and program changes from MIDI controllers and pedalboards.'}
+                    </p>
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => updateSettings({ midiEnabled: !settings.midiEnabled })}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                    settings.midiEnabled 
+                      ? 'bg-blue-600 focus:ring-blue-500' 
+                      : 'bg-gray-300 focus:ring-gray-400'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                      settings.midiEnabled 
+                        ? 'translate-x-6' 
+                        : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {settings.midiEnabled && (
+                <div className="flex items-center justify-between gap-3 mt-4 pt-4 border-t border-border">
+                  <div>
+                    <h4 className="text-sm font-medium text-foreground">Send Program Changes</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Select patches by setlist position: the first song sends program 1.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {settings.midiProgramChange && (
+                      <select
+                        value={settings.midiProgramChannel}
+                        onChange={(e) => updateSettings({ midiProgramChannel: parseInt(e.target.value) })}
+                        className="px-2 py-1 rounded border border-border bg-background text-foreground text-sm"
+                        aria-label="Program change channel"
+                      >
+                        {Array.from({ length: 16 }, (_, index) => index + 1).map(channel => (
+                          <option key={channel} value={channel}>Ch {channel}</option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => updateSettings({ midiProgramChange: !settings.midiProgramChange })}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-background ${
+                        settings.midiProgramChange 
+                          ? 'bg-blue-600 focus:ring-blue-500' 
+                          : 'bg-gray-300 focus:ring-gray-400'
+                      }`}
+                    >
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full transition-all duration-200 shadow-sm bg-white ${
+                          settings.midiProgramChange 
+                            ? 'translate-x-6' 
+                            : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="setting-item bg-card border border-border rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <p className="text-sm text-muted-foreground">
+                  Keys used in performance mode. Bluetooth page turners and foot pedals
+                  work like keyboards: press Learn, then press the pedal to assign it.
+                  {settings.midiEnabled && ' MIDI notes, CCs and program changes can be learned too.'}
+                </p>
+                <button
+                  onClick={() => updateSettings({ inputMappings: DEFAULT_INPUT_MAPPINGS })}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-secondary text-secondary-foreground hover:bg-accent transition-colors shrink-0"
+                >
+                  <RotateCcw size={14} />
+                  Reset
+                </button>
+              </div>
+
+              <div className="space-y-2">
+                {PERFORMANCE_ACTIONS.map(({ action, label }) => (
+                  <div key={action} className="flex items-center justify-between gap-3 py-1">
+                    <span className="text-sm text-foreground">{label}</span>
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      {settings.inputMappings[action].map(input => (
+                        <span
+                          key={input}
+                          className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border border-border bg-secondary text-secondary-foreground text-xs font-mono"
+                        >
+                          {InputMapper.describe(input)}
+                          <button
+                            onClick={() => updateSettings({ inputMappings: InputMapper.unassign(settings.inputMappings, action, input) })}
+                            className="p-0.5 rounded hover:bg-accent"
+                            aria-label={`Remove ${InputMapper.describe(input)} from ${label}`}
+                          >
+                            <X size={12} />
+                          </button>
+                        </span>
+                      ))}
+                      <button
+                        onClick={() => setLearningAction(learningAction === action ? null : action)}
+                        disabled={InputMapper.isContinuous(action) && !settings.midiEnabled}
+                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+                          learningAction === action
+                            ? 'bg-primary text-primary-foreground animate-pulse'
+                            : 'bg-secondary text-secondary-foreground hover:bg-accent'
+                        }`}
+                      >
+                        {learningAction === action ? 'Press a key…' : 'Learn'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {learningAction && (
+                <p className="text-xs text-muted-foreground mt-3">
+                  {InputMapper.isContinuous(learningAction)
+                    ? 'Move a MIDI knob, fader or expression pedal. '
+                    : ''}
+                  Press Escape to cancel.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Performance Section */}
         <div className="settings-section">
           <h2 className="text-xl font-semibold text-foreground mb-4 flex items-center gap-2">
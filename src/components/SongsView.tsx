@@ -1,16 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Music, Eye, Settings, RotateCcw, ArrowLeft } from 'lucide-react';
-import type { Song } from '../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Search, Music, Eye, Settings, RotateCcw, ArrowLeft, AlertTriangle, Info } from 'lucide-react';
+import type { Song, Key } from '../types';
 import { dataLoader } from '../utils/dataLoader';
+import { ChordProParseError } from '../utils/chordProParser';
+import type { ChordProDiagnostic } from '../utils/chordProParser';
 import { FullSongDisplay } from './ChordLyricDisplay';
 import { ChordTransposer } from '../utils/chordTransposer';
 import { SongOverrideStorage } from '../utils/songOverrides';
+import { useSettings } from '../contexts/SettingsContext';
+import { Instruments } from '../utils/instruments';
+import { SongExport, SONG_EXPORT_FORMATS } from '../utils/songExport';
 
 interface SongIndex {
   id: string;
   title: string;
   artist: string;
-  originalKey: string;
+  originalKey: Key;
   tempo: number;
   capoPosition: number;
 }
@@ -20,21 +25,22 @@ interface SongsViewProps {
 }
 
 export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
+  const { settings, updateSettings } = useSettings();
+  const instrument = Instruments.get(settings.instrument, settings.tuning);
   const [songsIndex, setSongsIndex] = useState<SongIndex[]>([]);
   const [filteredSongs, setFilteredSongs] = useState<SongIndex[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSong, setSelectedSong] = useState<Song | null>(null);
-  const [selectedSongKey, setSelectedSongKey] = useState<string>('');
+  const [selectedSongKey, setSelectedSongKey] = useState<Key>(ChordTransposer.DEFAULT_KEY);
   const [selectedSongCapo, setSelectedSongCapo] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   const [loadingSong, setLoadingSong] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [overrides, setOverrides] = useState(SongOverrideStorage.getAll());
   const [showTransposeControls, setShowTransposeControls] = useState(false);
-
-  useEffect(() => {
-    loadSongs();
-  }, []);
+  const [diagnostics, setDiagnostics] = useState<Record<string, ChordProDiagnostic[]>>({});
+  // A song strict checking refused to open, shown under its card
+  const [refusedSong, setRefusedSong] = useState<{ songId: string; message: string } | null>(null);
 
   useEffect(() => {
     // Filter songs based on search term
@@ -49,9 +55,17 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
     }
   }, [songsIndex, searchTerm]);
 
-  const loadSongs = async () => {
+  // Charts are only checked once opened, so the library doesn't fetch and
+  // parse every song up front. The song is cached by then.
+  const loadDiagnostics = async (songId: string) => {
+    const songDiagnostics = await dataLoader.getSongDiagnostics(songId);
+    setDiagnostics(current => ({ ...current, [songId]: songDiagnostics }));
+  };
+
+  const loadSongs = useCallback(async () => {
     try {
       setLoading(true);
+      setError(null);
       const loadedIndex = await dataLoader.getSongsIndex();
       setSongsIndex(loadedIndex);
       setFilteredSongs(loadedIndex);
@@ -61,16 +75,23 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    loadSongs();
+  }, [loadSongs]);
 
   const handleViewSong = async (songId: string) => {
     try {
       setLoadingSong(true);
-      const song = await dataLoader.getSongById(songId);
+      setRefusedSong(null);
+      const song = await dataLoader.getSongById(songId, { strict: settings.strictChordPro });
+      await loadDiagnostics(songId);
       
       // Load override settings for this song
       const override = SongOverrideStorage.get(songId);
-      const initialKey = override?.customKey || song?.originalKey || 'C';
+      const songKey = song?.originalKey || ChordTransposer.DEFAULT_KEY;
+      const initialKey = ChordTransposer.inSongMode(override?.customKey || songKey, songKey);
       const initialCapo = override?.customCapo ?? song?.capoPosition ?? 0;
       
       setSelectedSong(song);
@@ -78,18 +99,24 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
       setSelectedSongCapo(initialCapo);
       setShowTransposeControls(false); // Reset controls visibility
     } catch (err) {
-      setError('Failed to load song details');
       console.error('Error loading song:', err);
+      if (err instanceof ChordProParseError) {
+        // Keep the library on screen and list the problems under the song
+        await loadDiagnostics(songId);
+        setRefusedSong({ songId, message: 'This chart has problems and strict checking is on, so it was not opened.' });
+      } else {
+        setError('Failed to load song details');
+      }
     } finally {
       setLoadingSong(false);
     }
   };
 
-  const saveSelectedSongOverride = (newKey: string, newCapo: number) => {
+  const saveSelectedSongOverride = (newKey: Key, newCapo: number) => {
     if (!selectedSong) return;
 
     // Check if values are different from original
-    const isKeyDifferent = newKey !== selectedSong.originalKey;
+    const isKeyDifferent = !ChordTransposer.isSameKey(newKey, selectedSong.originalKey);
     const isCapoDifferent = newCapo !== (selectedSong.capoPosition ?? 0);
     
     if (isKeyDifferent || isCapoDifferent) {
@@ -99,10 +126,10 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
         isKeyDifferent ? newKey : undefined,
         isCapoDifferent ? newCapo : undefined
       );
-      console.log(`Saved override for ${selectedSong.title}: key=${newKey}, capo=${newCapo}`);
+      console.log(`Saved override for ${selectedSong.title}: key=${ChordTransposer.formatKey(newKey)}, capo=${newCapo}`);
     } else {
       // Remove override if back to original values
-      SongOverrideStorage.remove(selectedSong.id);
+      SongOverrideStorage.clearTransposition(selectedSong.id);
       console.log(`Removed override for ${selectedSong.title} - back to original values`);
     }
     
@@ -111,13 +138,13 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
   };
 
   const transposeUp = () => {
-    const newKey = ChordTransposer.transposeChordBySemitones(selectedSongKey, 1);
+    const newKey = ChordTransposer.transposeKey(selectedSongKey, 1);
     setSelectedSongKey(newKey);
     saveSelectedSongOverride(newKey, selectedSongCapo);
   };
 
   const transposeDown = () => {
-    const newKey = ChordTransposer.transposeChordBySemitones(selectedSongKey, -1);
+    const newKey = ChordTransposer.transposeKey(selectedSongKey, -1);
     setSelectedSongKey(newKey);
     saveSelectedSongOverride(newKey, selectedSongCapo);
   };
@@ -147,14 +174,16 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
     setSelectedSongKey(originalKey);
     setSelectedSongCapo(originalCapo);
     
-    SongOverrideStorage.remove(selectedSong.id);
+    SongOverrideStorage.clearTransposition(selectedSong.id);
     setOverrides(SongOverrideStorage.getAll());
     console.log(`Reset ${selectedSong.title} to original settings`);
   };
 
-  const getEffectiveKey = () => {
-    return ChordTransposer.getEffectiveKey(selectedSongKey, selectedSongCapo);
-  };
+  // Key of the shapes fingered with the capo; the song still sounds in
+  // selectedSongKey
+  const shapeKey = instrument.capo && (selectedSongCapo > 0 || instrument.pitchShift !== 0)
+    ? ChordTransposer.getShapeKey(selectedSongKey, selectedSongCapo, instrument.pitchShift)
+    : null;
 
   if (loading) {
     return (
@@ -184,7 +213,8 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
   }
 
   if (selectedSong) {
-    const hasOverride = overrides[selectedSong.id] !== undefined;
+    const override = overrides[selectedSong.id];
+    const hasOverride = override?.customKey !== undefined || override?.customCapo !== undefined;
     
     return (
       <div className={`songs-view ${className}`}>
@@ -211,11 +241,11 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
             <div className="p-4 bg-secondary rounded-lg">
               <div className="flex items-center justify-between mb-3">
                 <div className="text-sm">
-                  <div className="font-medium">Chord Key: {selectedSongKey}</div>
-                  <div className="text-muted-foreground">Effective Key: {getEffectiveKey()}</div>
+                  <div className="font-medium">Chord Key: {ChordTransposer.formatKey(selectedSongKey)}</div>
+                  {shapeKey && <div className="text-muted-foreground">Shape Key: {ChordTransposer.formatKey(shapeKey)}</div>}
                   {hasOverride && (
                     <div className="text-primary text-xs mt-1">
-                      Original: {selectedSong.originalKey} / Capo {selectedSong.capoPosition ?? 0}
+                      Original: {ChordTransposer.formatKey(selectedSong.originalKey)} / Capo {selectedSong.capoPosition ?? 0}
                     </div>
                   )}
                 </div>
@@ -267,14 +297,49 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
                   +
                 </button>
               </div>
+
+              {/* Capo chord display: concert pitch or the shapes played */}
+              {instrument.capo && (
+                <div className="grid grid-cols-2 gap-2 mt-3">
+                  {([['concert', 'Concert Pitch'], ['shapes', 'Capo Shapes']] as const).map(([value, label]) => (
+                    <button
+                      key={value}
+                      onClick={() => updateSettings({ capoDisplay: value })}
+                      className={`touch-target px-3 py-1 rounded border text-sm ${
+                        settings.capoDisplay === value
+                          ? 'bg-primary text-primary-foreground border-primary'
+                          : 'bg-background text-foreground border-border'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Export the song as written, e.g. back to projection software */}
+              <div className="flex items-center gap-2 mt-3">
+                <span className="text-sm text-muted-foreground">Export</span>
+                {SONG_EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => SongExport.download(selectedSong, format)}
+                    className="touch-target flex-1 px-3 py-1 bg-background text-foreground rounded border border-border text-sm"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
             </div>
           )}
         </div>
         <div className="song-detail-content p-4 pb-safe">
+          <DiagnosticsList diagnostics={diagnostics[selectedSong.id] || []} className="mb-6" />
           <FullSongDisplay 
             song={selectedSong} 
             currentKey={selectedSongKey}
             capoPosition={selectedSongCapo}
+            chordDisplay={settings.capoDisplay}
           />
         </div>
       </div>
@@ -320,6 +385,8 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
                 key={song.id}
                 song={song}
                 override={overrides[song.id]}
+                diagnostics={diagnostics[song.id]}
+                refusal={refusedSong?.songId === song.id ? refusedSong.message : undefined}
                 onSelect={() => handleViewSong(song.id)}
                 loading={loadingSong}
               />
@@ -333,7 +400,9 @@ export const SongsView: React.FC<SongsViewProps> = ({ className = '' }) => {
 
 interface SongCardProps {
   song: SongIndex;
-  override?: { songId: string; customKey?: string; customCapo?: number; updatedAt: Date };
+  override?: { songId: string; customKey?: Key; customCapo?: number; updatedAt: Date };
+  diagnostics?: ChordProDiagnostic[];
+  refusal?: string; // Why the song wasn't opened
   onSelect: () => void;
   loading?: boolean;
 }
@@ -341,13 +410,22 @@ interface SongCardProps {
 const SongCard: React.FC<SongCardProps> = ({ 
   song, 
   override, 
+  diagnostics = [],
+  refusal,
   onSelect, 
   loading = false 
 }) => {
-  const hasOverride = override !== undefined;
-  const currentKey = override?.customKey || song.originalKey;
+  // A saved scroll speed alone doesn't mark the song as modified
+  const hasOverride = override?.customKey !== undefined || override?.customCapo !== undefined;
+  const currentKey = ChordTransposer.inSongMode(override?.customKey || song.originalKey, song.originalKey);
   const currentCapo = override?.customCapo ?? song.capoPosition;
-  const effectiveKey = ChordTransposer.getEffectiveKey(currentKey, currentCapo);
+  const { settings } = useSettings();
+  const instrument = Instruments.get(settings.instrument, settings.tuning);
+  const shapeKey = instrument.capo && ((currentCapo ?? 0) > 0 || instrument.pitchShift !== 0)
+    ? ChordTransposer.getShapeKey(currentKey, currentCapo ?? 0, instrument.pitchShift)
+    : null;
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
 
   return (
     <div className="song-card bg-card border border-border rounded-lg p-4 hover:bg-accent/50 transition-colors">
@@ -360,14 +438,24 @@ const SongCard: React.FC<SongCardProps> = ({
                 Modified
               </span>
             )}
+            {errorCount > 0 && (
+              <span className="ml-2 text-xs text-destructive bg-destructive/10 px-2 py-1 rounded">
+                {errorCount} {errorCount === 1 ? 'error' : 'errors'}
+              </span>
+            )}
+            {warningCount > 0 && (
+              <span className="ml-2 text-xs text-amber-600 dark:text-amber-400 bg-amber-500/10 px-2 py-1 rounded">
+                {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+              </span>
+            )}
           </h3>
           <p className="text-muted-foreground mb-2">{song.artist}</p>
           
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
             <span>
-              Key: {currentKey}
-              {hasOverride && currentKey !== song.originalKey && (
-                <span className="text-primary ml-1">(was {song.originalKey})</span>
+              Key: {ChordTransposer.formatKey(currentKey)}
+              {hasOverride && !ChordTransposer.isSameKey(currentKey, song.originalKey) && (
+                <span className="text-primary ml-1">(was {ChordTransposer.formatKey(song.originalKey)})</span>
               )}
             </span>
             <span>
@@ -376,7 +464,7 @@ const SongCard: React.FC<SongCardProps> = ({
                 <span className="text-primary ml-1">(was {song.capoPosition})</span>
               )}
             </span>
-            <span>Effective: {effectiveKey}</span>
+            {shapeKey && <span>Shapes: {ChordTransposer.formatKey(shapeKey)}</span>}
             {song.tempo && <span>♩ = {song.tempo}</span>}
           </div>
         </div>
@@ -389,6 +477,57 @@ const SongCard: React.FC<SongCardProps> = ({
           <Eye size={20} />
         </button>
       </div>
+
+      {refusal && (
+        <div className="mt-3" role="alert">
+          <p className="text-sm text-destructive mb-2">{refusal}</p>
+          <DiagnosticsList diagnostics={diagnostics} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface DiagnosticsListProps {
+  diagnostics: ChordProDiagnostic[];
+  className?: string;
+}
+
+// Warnings and errors are listed as chart problems; notes such as a guessed
+// key are shown on their own, without the warning styling
+const DiagnosticsList: React.FC<DiagnosticsListProps> = ({ diagnostics, className = '' }) => {
+  const problems = diagnostics.filter(diagnostic => diagnostic.severity !== 'info');
+  const notes = diagnostics.filter(diagnostic => diagnostic.severity === 'info');
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div className={`diagnostics space-y-2 text-sm ${className}`}>
+      {problems.length > 0 && (
+        <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+          <div className="flex items-center gap-2 font-medium text-amber-700 dark:text-amber-300 mb-2">
+            <AlertTriangle size={16} />
+            Chart problems
+          </div>
+          <ul className="space-y-1">
+            {problems.map((diagnostic, index) => (
+              <li key={index} className={diagnostic.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'}>
+                <span className="font-mono text-xs mr-2">{diagnostic.line}:{diagnostic.column}</span>
+                {diagnostic.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {notes.length > 0 && (
+        <ul className="space-y-1 text-muted-foreground">
+          {notes.map((diagnostic, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <Info size={14} className="shrink-0" />
+              {diagnostic.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import type { SetlistContextType, Setlist, SetlistMetadata, Song, SongMetadata } from '../types';
+import type { SetlistContextType, Setlist, SetlistMetadata, SetlistSong, Song, SongMetadata } from '../types';
 import { setlistStorage } from '../utils/setlistStorage';
 import { dataLoader } from '../utils/dataLoader';
 
@@ -227,6 +227,25 @@ export const SetlistProvider: React.FC<SetlistProviderProps> = ({ children }) =>
     });
   }, [currentSetlist]);
 
+  const updateSetlistSong = useCallback((songId: string, changes: Partial<Omit<SetlistSong, 'songId' | 'order' | 'addedAt'>>) => {
+    if (!currentSetlist) {
+      throw new Error('No setlist selected');
+    }
+
+    if (!currentSetlist.songs.some(song => song.songId === songId)) {
+      throw new Error('Song not found in setlist');
+    }
+
+    setCurrentSetlist({
+      ...currentSetlist,
+      songs: currentSetlist.songs.map(song => song.songId === songId ? { ...song, ...changes } : song),
+      metadata: {
+        ...currentSetlist.metadata,
+        updatedAt: new Date()
+      }
+    });
+  }, [currentSetlist]);
+
   const duplicateSetlist = useCallback(async (id: string, newName: string) => {
     try {
       const duplicatedSetlist = await setlistStorage.duplicateSetlist(id, newName);
@@ -273,6 +292,7 @@ export const SetlistProvider: React.FC<SetlistProviderProps> = ({ children }) =>
     addSongToSetlist,
     removeSongFromSetlist,
     reorderSongs,
+    updateSetlistSong,
     
     // Utility
     duplicateSetlist,
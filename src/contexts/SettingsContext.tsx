@@ -1,9 +1,28 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import type { ChordStyle, ChordSimplification } from '../utils/chordGrammar';
+import type { InstrumentId, TuningId } from '../types';
+import { DEFAULT_INPUT_MAPPINGS, InputMapper } from '../utils/inputMappings';
+import type { InputMappings } from '../utils/inputMappings';
 
 export interface AppSettings {
   autoStartLoops: boolean;
   loopFadeOutDuration: number; // in milliseconds
   loopBlendDuration: number; // in milliseconds for crossfading
+  expandSectionRecalls: boolean; // write out recalled choruses in full
+  autoScrollHoldAtSections: boolean; // auto-scroll pauses with each section's start in view
+  showChordDiagrams: boolean; // diagrams of the chords used at the top of each song
+  strictChordPro: boolean; // the song library refuses charts with warnings or errors
+  chordNotation: 'letters' | 'numbers' | 'both'; // chord names, scale degrees, or both stacked
+  numberSystem: 'nashville' | 'roman'; // how scale degrees are written
+  chordStyle: ChordStyle; // house style for chord symbols (Cmaj7, CM7, CΔ7)
+  chordSimplification: ChordSimplification; // reduce chords for beginners at render time
+  capoDisplay: 'concert' | 'shapes'; // with a capo, show sounding chords or the shapes played
+  instrument: InstrumentId; // diagrams, capo shapes and bass-note charts follow this
+  tuning: TuningId; // falls back to standard when the instrument doesn't have it
+  inputMappings: InputMappings; // keys, pedals and MIDI controls for performance actions
+  midiEnabled: boolean; // listen to MIDI controllers in performance mode
+  midiProgramChange: boolean; // send a program change with each song's setlist position
+  midiProgramChannel: number; // 1..16
 }
 
 interface SettingsContextType {
@@ -16,6 +35,21 @@ const defaultSettings: AppSettings = {
   autoStartLoops: false,
   loopFadeOutDuration: 2000, // 2 seconds
   loopBlendDuration: 1000, // 1 second crossfade
+  expandSectionRecalls: false,
+  autoScrollHoldAtSections: true,
+  showChordDiagrams: false,
+  strictChordPro: false,
+  chordNotation: 'letters',
+  numberSystem: 'nashville',
+  chordStyle: 'as-written',
+  chordSimplification: 'full',
+  capoDisplay: 'concert',
+  instrument: 'guitar',
+  tuning: 'standard',
+  inputMappings: DEFAULT_INPUT_MAPPINGS,
+  midiEnabled: false,
+  midiProgramChange: false,
+  midiProgramChannel: 1,
 };
 
 const SETTINGS_STORAGE_KEY = 'gigpad_settings';
@@ -41,7 +75,11 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
       if (savedSettings) {
         const parsed = JSON.parse(savedSettings);
         // Merge with defaults to handle new settings
-        return { ...defaultSettings, ...parsed };
+        return {
+          ...defaultSettings,
+          ...parsed,
+          inputMappings: InputMapper.withDefaults(parsed.inputMappings)
+        };
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -4,26 +4,49 @@ export interface Song {
   id: string;
   title: string;
   artist: string;
-  originalKey: string;
+  originalKey: Key;
   capoPosition?: number; // 0 = no capo
   tempo?: number;
+  timeSignature?: string; // e.g. "4/4", from {time: 4/4}
+  flow?: string[]; // Section order from {flow: V1 C V2 C}, as written
   sections: SongSection[];
+  chordDefinitions?: ChordDefinition[]; // Voicings from {define} directives
+  source?: ChordProDocument; // Set when parsed from ChordPro, used for lossless export
   metadata: {
     createdAt: Date;
     updatedAt: Date;
     tags?: string[];
+    notes?: string;
+    scriptureReference?: string;
+    book?: string;
+    ccli?: string; // CCLI song number
+    copyright?: string;
+    custom?: Record<string, string>; // Any other metadata keys from the source file
   };
 }
 
+// Section types with their own label, color and abbreviation (see
+// utils/sectionTypes). Any other string is allowed and shown by its name.
+export type SectionType =
+  | 'verse' | 'prechorus' | 'chorus' | 'refrain' | 'bridge' | 'intro' | 'outro' | 'ending'
+  | 'tag' | 'interlude' | 'instrumental' | 'turnaround' | 'vamp' | 'tab' | 'grid'
+  | (string & {});
+
 export interface SongSection {
-  type: 'verse' | 'chorus' | 'bridge' | 'intro' | 'outro';
+  type: SectionType;
   name?: string; // e.g., "Verse 1", "Chorus"
   content: ChordLyricLine[];
+  reference?: string; // Name of an earlier section this one recalls, e.g. {chorus}
+  repeat?: number; // Times the section is played, e.g. 2 for "x2"
+  sourceLine?: number; // Index of the line in Song.source that starts this section
 }
 
 export interface ChordLyricLine {
   lyrics: string;
   chords: ChordPosition[];
+  repeat?: number; // Times the line is played, e.g. 2 for "x2"
+  comment?: 'normal' | 'italic' | 'box' | 'highlight'; // Set when the line is a {comment} cue; text is in lyrics
+  sourceLine?: number; // Index of the line in Song.source this was parsed from
 }
 
 export interface ChordPosition {
@@ -31,6 +54,34 @@ export interface ChordPosition {
   position: number; // character position in lyrics line
 }
 
+// A fretted chord shape. Frets follow ChordPro {define} semantics: 1 is the
+// first fret at baseFret, 0 is open and null is not played. Strings run from
+// lowest to highest.
+export interface ChordVoicing {
+  frets: (number | null)[];
+  fingers?: (number | null)[]; // 1-4, null or 0 for none
+  baseFret: number;
+}
+
+export interface ChordDefinition extends ChordVoicing {
+  name: string; // Chord symbol as written in the file
+}
+
+// ChordPro source document (concrete syntax tree) types
+export interface ChordProDocument {
+  lines: ChordProSourceLine[];
+  lineEnding: '\n' | '\r\n';
+  fields: Record<string, string | undefined>; // Song metadata values as originally parsed
+}
+
+export interface ChordProSourceLine {
+  text: string; // Exact source text, without the line ending
+  role: 'blank' | 'metadata' | 'section-start' | 'section-end' | 'section-repeat' | 'content' | 'other';
+  field?: string; // Metadata lines: the Song field set, e.g. "tempo" or "custom:CCLI"
+  owner?: number; // Section end/repeat lines: index of the section's start line
+  value?: string; // Rendered form of what the line parsed to, to detect edits
+}
+
 export interface Setlist {
   id: string; // UUID v4
   name: string;
@@ -47,12 +98,20 @@ export interface Setlist {
 export interface SetlistSong {
   songId: string; // References song from library
   order: number; // 0-based ordering
-  customKey?: string; // Override original song key
+  customKey?: Key; // Override original song key
   customCapo?: number; // Override original capo position
   notes?: string; // Performance-specific notes
+  flow?: string[]; // Section order for this setlist, e.g. ["V1", "C", "B", "x2"]; the song's own order when unset
   addedAt: Date; // When song was added to setlist
 }
 
+// A reusable section order for a song, e.g. "Short" or "Acoustic set"
+export interface NamedArrangement {
+  name: string;
+  flow: string[]; // Section labels in playing order, as on SetlistSong.flow
+  updatedAt: Date;
+}
+
 export interface SetlistMetadata {
   id: string;
   name: string;
@@ -66,7 +125,7 @@ export interface SetlistMetadata {
 
 export interface LoopTrack {
   id: string;
-  key: string; // Musical key (C, C#, D, etc.)
+  key: Key; // Written as a label (C, Bb, F#m, etc.) in loops.json
   style: string; // e.g., "ambient-pad", "acoustic-strum"
   filePath: string; // Path to MP3 file
   duration: number; // Loop duration in seconds
@@ -122,6 +181,7 @@ export interface SetlistContextType {
   addSongToSetlist: (songId: string, position?: number) => void;
   removeSongFromSetlist: (songId: string) => void;
   reorderSongs: (fromIndex: number, toIndex: number) => void;
+  updateSetlistSong: (songId: string, changes: Partial<Omit<SetlistSong, 'songId' | 'order' | 'addedAt'>>) => void;
   
   // Utility
   duplicateSetlist: (id: string, newName: string) => Promise<Setlist>;
@@ -134,7 +194,7 @@ export interface SongMetadata {
   id: string;
   title: string;
   artist: string;
-  originalKey: string;
+  originalKey: Key;
   tempo?: number;
   capoPosition?: number;
   tags?: string[];
@@ -143,24 +203,41 @@ export interface SongMetadata {
 // Chord transposition types
 export type ChromaticNote = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
 
+// A musical key: its tonic and mode. Files and the screen write keys as
+// labels ("G", "Bb", "F#m"); convert with ChordTransposer.parseKey and
+// formatKey, and compare with ChordTransposer.isSameKey.
+export type KeyTonic = ChromaticNote | 'Db' | 'Eb' | 'Gb' | 'Ab' | 'Bb' | 'Cb';
+export type KeyMode = 'major' | 'minor';
+export interface Key {
+  tonic: KeyTonic;
+  mode: KeyMode;
+}
+
+// Instruments with their own chord rendering (see utils/instruments)
+export type InstrumentId = 'guitar' | 'ukulele' | 'mandolin' | 'bass' | 'keyboard';
+export type TuningId =
+  | 'standard' | 'half-step-down' | 'whole-step-down' | 'drop-d' | 'double-drop-d' | 'dadgad' | 'open-g'
+  | 'd-tuning';
+
 export interface ChordTransposition {
-  fromKey: string;
-  toKey: string;
+  fromKey: Key;
+  toKey: Key;
   capoPosition: number;
 }
 
 // Song override types for persistent settings
 export interface SongOverride {
   songId: string;
-  customKey?: string; // Transposed key
+  customKey?: Key; // Transposed key
   customCapo?: number; // Capo position
+  scrollSpeed?: number; // Auto-scroll speed multiplier
   updatedAt: Date;
 }
 
 // Performance mode types
 export interface PerformanceState {
   currentSong: Song;
-  currentKey: string;
+  currentKey: Key;
   capoPosition: number;
   isPlaying: boolean;
   currentTrack?: LoopTrack;
@@ -0,0 +1,84 @@
+// Named arrangement storage: reusable section orders for each song, kept
+// apart from the song files so they can be shared between setlists
+import type { NamedArrangement } from '../types';
+
+export interface SongArrangements {
+  [songId: string]: NamedArrangement[];
+}
+
+const STORAGE_KEY = 'sing-song-arrangements';
+
+export class ArrangementStorage {
+  /**
+   * Get every song's named arrangements from localStorage
+   */
+  static getAll(): SongArrangements {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) return {};
+
+      const parsed: SongArrangements = JSON.parse(stored);
+
+      // Convert date strings back to Date objects
+      Object.values(parsed).forEach(arrangements => {
+        arrangements.forEach(arrangement => {
+          arrangement.updatedAt = new Date(arrangement.updatedAt);
+        });
+      });
+
+      return parsed;
+    } catch (error) {
+      console.error('Error loading arrangements:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Get a song's named arrangements, sorted by name
+   */
+  static get(songId: string): NamedArrangement[] {
+    return [...(this.getAll()[songId] || [])].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Save a named arrangement, replacing any of the same name. Throws when it
+   * can't be stored, e.g. when storage is full.
+   */
+  static save(songId: string, name: string, flow: string[]): void {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      console.error('Error saving arrangement: name is empty');
+      throw new Error('Arrangement name is required');
+    }
+
+    try {
+      const all = this.getAll();
+      const others = (all[songId] || []).filter(arrangement => arrangement.name.toLowerCase() !== trimmed.toLowerCase());
+      all[songId] = [...others, { name: trimmed, flow, updatedAt: new Date() }];
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.error('Error saving arrangement:', error);
+      throw new Error('Failed to save arrangement to localStorage');
+    }
+  }
+
+  /**
+   * Delete a named arrangement. Setlists that use its flow keep their copy.
+   * Throws when storage can't be updated.
+   */
+  static remove(songId: string, name: string): void {
+    try {
+      const all = this.getAll();
+      const remaining = (all[songId] || []).filter(arrangement => arrangement.name !== name);
+      if (remaining.length > 0) {
+        all[songId] = remaining;
+      } else {
+        delete all[songId];
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (error) {
+      console.error('Error removing arrangement:', error);
+      throw new Error('Failed to delete arrangement from localStorage');
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import type { Song, Key } from '../types';
+import { ChordGrammar } from './chordGrammar';
+import { ChordTransposer } from './chordTransposer';
+import { ChordVoicings } from './chordVoicings';
+import { Instruments } from './instruments';
+import type { InstrumentProfile } from './instruments';
+
+export interface CapoSuggestion {
+  capo: number;
+  shapeKey: Key; // Key the shapes are played in
+  chords: string[]; // Distinct shapes, in the order they first appear
+  awkward: string[]; // Distinct shapes that need a barre or are altered
+  open: number; // Chord occurrences playable as open shapes
+  barre: number; // Occurrences that need a barre
+  altered: number; // Occurrences of altered, diminished or augmented chords without an open shape
+  score: number;
+}
+
+// Open-position guitar shapes, written in the "standard" chord style. Other
+// instruments and tunings judge each shape from its searched voicing.
+const OPEN_CHORDS = new Set([
+  'A', 'Am', 'A7', 'Am7', 'Amaj7', 'A6', 'A2', 'Asus2', 'Asus4', 'A7sus4', 'A5',
+  'B7',
+  'C', 'C7', 'Cmaj7', 'C2', 'Cadd9', 'Csus2', 'C6',
+  'D', 'Dm', 'D7', 'Dm7', 'Dmaj7', 'D6', 'D2', 'Dsus2', 'Dsus4', 'Dadd4', 'D5',
+  'E', 'Em', 'E7', 'Em7', 'Emaj7', 'E6', 'Esus4', 'E7sus4', 'Eadd9', 'E5',
+  'Fmaj7',
+  'G', 'G7', 'Gmaj7', 'G6', 'G2', 'Gadd9', 'Gsus4', 'G5'
+]);
+
+// Bass notes that can be added to an open shape without a barre
+const OPEN_BASS_NOTES = ['A', 'B', 'C', 'D', 'E', 'F#', 'G'];
+
+// Points per chord occurrence; awkward chords cost more than open ones earn
+const OPEN_SCORE = 2;
+const BARRE_PENALTY = 3;
+const ALTERED_PENALTY = 4;
+// Capos above this fret leave little room to play and aren't suggested
+const PRACTICAL_CAPO = 7;
+
+// Suggests capo positions for a song from the chords it actually uses,
+// scoring each capo by how many chords become open shapes
+export class CapoSuggester {
+  /**
+   * Score each practical capo position for a set of concert-pitch chords in a key,
+   * best first. Chords are given once per occurrence so common chords count
+   * for more. Shapes follow the instrument's tuning, and instruments played
+   * without a capo get no suggestions.
+   */
+  static suggest(chords: string[], key: Key, limit: number = 3, instrument: InstrumentProfile = Instruments.get('guitar')): CapoSuggestion[] {
+    const playable = chords.filter(chord => ChordGrammar.parse(chord));
+    if (playable.length === 0 || !instrument.capo) return [];
+
+    const shapeInstrument = Instruments.getShapeProfile(instrument);
+    const suggestions: CapoSuggestion[] = [];
+    for (let capo = 0; capo <= PRACTICAL_CAPO; capo++) {
+      const shapeKey = ChordTransposer.getShapeKey(key, capo, instrument.pitchShift);
+      const shapes = playable.map(chord =>
+        ChordTransposer.transposeChordBySemitones(chord, -(capo + instrument.pitchShift), shapeKey)
+      );
+
+      let open = 0;
+      let barre = 0;
+      let altered = 0;
+      const awkward = new Set<string>();
+      for (const shape of shapes) {
+        const playability = this.classify(shape, shapeInstrument);
+        if (playability === 'open') {
+          open++;
+          continue;
+        }
+        if (playability === 'barre') barre++;
+        else altered++;
+        awkward.add(shape);
+      }
+
+      const score = open * OPEN_SCORE - barre * BARRE_PENALTY - altered * ALTERED_PENALTY;
+      suggestions.push({ capo, shapeKey, chords: [...new Set(shapes)], awkward: [...awkward], open, barre, altered, score });
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || a.capo - b.capo)
+      .slice(0, limit);
+  }
+
+  /**
+   * Describe a suggestion, e.g. "Capo 3, play in G: G C D Em (all open)"
+   * or "Capo 1, play in A: A D E F#m (harder: F#m)"
+   */
+  static describe(suggestion: CapoSuggestion): string {
+    const { capo, shapeKey, chords, awkward } = suggestion;
+    const position = capo === 0 ? 'No capo' : `Capo ${capo}`;
+    const playability = awkward.length > 0 ? `harder: ${awkward.join(' ')}` : 'all open';
+    return `${position}, play in ${ChordTransposer.formatKey(shapeKey)}: ${chords.join(' ')} (${playability})`;
+  }
+
+  /**
+   * Every chord occurrence in a song, in order, skipping recalled sections
+   * that have no lines of their own
+   */
+  static getSongChords(song: Song): string[] {
+    return song.sections.flatMap(section =>
+      section.content.flatMap(line => line.comment ? [] : line.chords.map(chordPos => chordPos.chord))
+    );
+  }
+
+  private static classify(shape: string, instrument: InstrumentProfile): 'open' | 'barre' | 'altered' {
+    const chord = ChordGrammar.parse(shape);
+    if (!chord) return 'barre';
+
+    if (instrument.id === 'guitar' && Instruments.isStandardTuning(instrument)) {
+      const bassPlayable = !chord.bass || OPEN_BASS_NOTES.includes(chord.bass);
+      const upper = ChordGrammar.format({ ...chord, bass: undefined, lower: undefined }, 'standard');
+      if (!chord.lower && bassPlayable && OPEN_CHORDS.has(upper)) return 'open';
+    } else if (this.isOpenVoicing(shape, instrument)) {
+      return 'open';
+    }
+
+    const isAltered = chord.alterations.length > 0 || chord.quality === 'diminished' ||
+      chord.quality === 'half-diminished' || chord.quality === 'augmented';
+    return isAltered ? 'altered' : 'barre';
+  }
+
+  // A first-position shape that rings at least one open string
+  private static isOpenVoicing(shape: string, instrument: InstrumentProfile): boolean {
+    const voicing = ChordVoicings.get(shape, [], instrument);
+    return voicing !== null && voicing.baseFret === 1 && voicing.frets.includes(0) &&
+      voicing.frets.every(fret => fret === null || fret <= 4);
+  }
+}
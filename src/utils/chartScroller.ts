@@ -0,0 +1,78 @@
+// Share of the visible chart kept on screen when paging, so the reader
+// doesn't lose their place
+const PAGE_OVERLAP = 0.15;
+
+// Moves around a song chart by page or by section, for page turners and
+// keyboard shortcuts
+export class ChartScroller {
+  /**
+   * The nearest ancestor of the chart that scrolls, or the document
+   */
+  static findContainer(element: HTMLElement): HTMLElement {
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+      const overflow = getComputedStyle(parent).overflowY;
+      if ((overflow === 'auto' || overflow === 'scroll') && parent.scrollHeight > parent.clientHeight) {
+        return parent;
+      }
+    }
+    return (document.scrollingElement ?? document.documentElement) as HTMLElement;
+  }
+
+  /**
+   * Scroll a screen's worth down (1) or up (-1), less the part under fixed
+   * headers
+   */
+  static scrollPage(content: HTMLElement, direction: 1 | -1, topOffset = 0): void {
+    const container = this.findContainer(content);
+    const page = (container.clientHeight - topOffset) * (1 - PAGE_OVERLAP);
+    container.scrollBy({ top: page * direction, behavior: 'smooth' });
+  }
+
+  /**
+   * Bring the start of the next (1) or previous (-1) .song-section to the top
+   * of the screen
+   */
+  static scrollToSection(content: HTMLElement, direction: 1 | -1, topOffset = 0): void {
+    const container = this.findContainer(content);
+    const stops = this.getSectionStops(content, container, topOffset);
+    const current = Math.round(container.scrollTop);
+    // A couple of pixels' slack so a section already at the top counts as current
+    const target = direction === 1
+      ? stops.find(stop => stop > current + 2)
+      : [...stops].reverse().find(stop => stop < current - 2);
+
+    container.scrollTo({ top: Math.max(0, target ?? (direction === 1 ? container.scrollHeight : 0)), behavior: 'smooth' });
+  }
+
+  /**
+   * Bring the start of the section at an index to the top of the screen
+   */
+  static scrollToSectionIndex(content: HTMLElement, index: number, topOffset = 0): void {
+    const container = this.findContainer(content);
+    const stop = this.getSectionStops(content, container, topOffset)[index];
+    if (stop === undefined) return;
+    container.scrollTo({ top: Math.max(0, stop), behavior: 'smooth' });
+  }
+
+  /**
+   * Index of the section at the top of the screen: the last one whose start
+   * has scrolled up to it. At the bottom of the chart, the last section.
+   */
+  static getCurrentSectionIndex(content: HTMLElement, topOffset = 0): number {
+    const container = this.findContainer(content);
+    const stops = this.getSectionStops(content, container, topOffset);
+    if (stops.length === 0) return -1;
+    const maxScroll = container.scrollHeight - container.clientHeight;
+    if (maxScroll > 0 && container.scrollTop >= maxScroll - 2) return stops.length - 1;
+    const current = Math.round(container.scrollTop);
+    const index = stops.findIndex(stop => stop > current + 2);
+    return index === -1 ? stops.length - 1 : Math.max(0, index - 1);
+  }
+
+  // Scroll position that puts each .song-section's start at the top
+  private static getSectionStops(content: HTMLElement, container: HTMLElement, topOffset: number): number[] {
+    const containerTop = container === document.scrollingElement ? 0 : container.getBoundingClientRect().top;
+    return Array.from(content.querySelectorAll<HTMLElement>('.song-section'))
+      .map(section => Math.round(section.getBoundingClientRect().top - containerTop + container.scrollTop - topOffset));
+  }
+}
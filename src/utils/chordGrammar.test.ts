@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ChordGrammar } from './chordGrammar';
+import type { ParsedChord } from './chordGrammar';
+
+const chord = (parts: Partial<ParsedChord> & Pick<ParsedChord, 'root' | 'quality'>): ParsedChord => ({
+  added: [], alterations: [], omitted: [], ...parts
+});
+
+describe('ChordGrammar.parse', () => {
+  it.each<[string, ParsedChord]>([
+    ['Am', chord({ root: 'A', quality: 'minor' })],
+    ['C2', chord({ root: 'C', quality: 'major', added: ['2'] })],
+    ['C4', chord({ root: 'C', quality: 'major', added: ['4'] })],
+    ['Csus4', chord({ root: 'C', quality: 'major', sus: '4' })],
+    ['CΔ7', chord({ root: 'C', quality: 'major', extension: '7', majorSeventh: true })],
+    ['F#m7b5/E', chord({ root: 'F#', quality: 'half-diminished', extension: '7', bass: 'E' })],
+    ['C(add9)/E', chord({ root: 'C', quality: 'major', added: ['9'], bass: 'E' })],
+    ['G7(#9,b13)', chord({ root: 'G', quality: 'major', extension: '7', alterations: ['#9', 'b13'] })],
+    ['C6/9', chord({ root: 'C', quality: 'major', extension: '6/9' })],
+    ['D|C', chord({ root: 'D', quality: 'major', lower: chord({ root: 'C', quality: 'major' }) })]
+  ])('reads %s', (symbol, expected) => {
+    expect(ChordGrammar.parse(symbol)).toEqual(expected);
+  });
+
+  it.each(['N.C.', '%', 'Gsu4', 'H7'])('does not read %s as a chord', symbol => {
+    expect(ChordGrammar.parse(symbol)).toBeNull();
+  });
+});
+
+describe('ChordGrammar.validate', () => {
+  it.each<[string, string | null]>([
+    ['Dsus4/F#', null],
+    ['N.C.', null],
+    ['%', null],
+    ['Gsu4', 'Unrecognised "su4" in chord "Gsu4"'],
+    ['H7', '"H7" is not a chord']
+  ])('%s → %s', (symbol, expected) => {
+    expect(ChordGrammar.validate(symbol)).toBe(expected);
+  });
+});
+
+describe('ChordGrammar.normalise', () => {
+  // symbol, standard, short, jazz
+  it.each([
+    ['C2', 'C2', 'C2', 'C2'],
+    ['C4', 'C4', 'C4', 'C4'],
+    ['CΔ7', 'Cmaj7', 'CM7', 'CΔ7'],
+    ['C-7', 'Cm7', 'Cm7', 'C-7'],
+    ['F#m7b5', 'F#m7b5', 'F#m7b5', 'F#ø'],
+    ['Bø7', 'Bm7b5', 'Bm7b5', 'Bø'],
+    ['Edim7', 'Edim7', 'E°7', 'E°7'],
+    ['Bbaug', 'Bbaug', 'Bb+', 'Bb+'],
+    ['Cm(maj7)', 'Cm(maj7)', 'CmM7', 'C-Δ7'],
+    ['C(add9)/E', 'Cadd9/E', 'Cadd9/E', 'Cadd9/E'],
+    ['G7(#9,b13)', 'G7#9b13', 'G7#9b13', 'G7#9b13'],
+    ['C6/9', 'C6/9', 'C6/9', 'C6/9'],
+    ['D|C', 'D|C', 'D|C', 'D|C'],
+    ['N.C.', 'N.C.', 'N.C.', 'N.C.'],
+    ['Gsu4', 'Gsu4', 'Gsu4', 'Gsu4']
+  ])('%s → %s / %s / %s', (symbol, standard, short, jazz) => {
+    expect(ChordGrammar.normalise(symbol, 'standard')).toBe(standard);
+    expect(ChordGrammar.normalise(symbol, 'short')).toBe(short);
+    expect(ChordGrammar.normalise(symbol, 'jazz')).toBe(jazz);
+    expect(ChordGrammar.normalise(symbol, 'as-written')).toBe(symbol);
+  });
+});
+
+describe('ChordGrammar.simplify', () => {
+  // symbol, simplified, triads
+  it.each([
+    ['C2', 'C', 'C'],
+    ['C4', 'C', 'C'],
+    ['Cmaj9', 'Cmaj7', 'C'],
+    ['Gm11', 'Gm7', 'Gm'],
+    ['A7sus4', 'A7', 'A'],
+    ['Dsus4/F#', 'D/F#', 'D'],
+    ['C(add9)/E', 'C/E', 'C'],
+    ['C6/9', 'C6', 'C'],
+    ['F#m7b5', 'F#m7b5', 'F#dim'],
+    ['Edim7', 'Edim7', 'Edim'],
+    ['Cm(maj7)', 'Cm(maj7)', 'Cm'],
+    ['D|C', 'D', 'D'],
+    ['N.C.', 'N.C.', 'N.C.'],
+    ['Gsu4', 'Gsu4', 'Gsu4']
+  ])('%s → %s / %s', (symbol, simplified, triads) => {
+    expect(ChordGrammar.simplify(symbol, 'simplified')).toBe(simplified);
+    expect(ChordGrammar.simplify(symbol, 'triads')).toBe(triads);
+    expect(ChordGrammar.simplify(symbol, 'full')).toBe(symbol);
+  });
+});
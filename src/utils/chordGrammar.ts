@@ -0,0 +1,307 @@
+// Structured chord model: parses chord symbols such as "F#m7b5", "Cmaj9",
+// "Dsus4/F#", "G7(#9,b13)" and "D|C", validates them and renders them back
+// in a consistent house style
+
+export interface ParsedChord {
+  root: string; // "C", "F#", "Bb"
+  quality: 'major' | 'minor' | 'diminished' | 'half-diminished' | 'augmented' | 'power';
+  extension?: string; // "6", "7", "9", "11", "13" or "6/9"
+  majorSeventh?: boolean; // maj7, maj9, m(maj7)...
+  sus?: '2' | '4';
+  added: string[]; // add9 → "9"; a bare "C2" adds "2"
+  alterations: string[]; // "b5", "#9", "b13", "alt"
+  omitted: string[]; // no3 → "3"
+  bass?: string; // Slash bass note
+  lower?: ParsedChord; // Polychord: this chord over `lower`, written "D|C"
+}
+
+export type ChordStyle = 'as-written' | 'standard' | 'short' | 'jazz';
+
+// How far chords are reduced for less experienced players: "simplified" keeps
+// sixths, sevenths and slash basses; "triads" plays plain three-note chords
+export type ChordSimplification = 'full' | 'simplified' | 'triads';
+
+interface ChordStyleSymbols {
+  major: string; // Major seventh marker
+  minor: string;
+  diminished: string;
+  halfDiminished: string | null; // null writes it out as m7b5
+  augmented: string;
+}
+
+const CHORD_STYLES: Record<Exclude<ChordStyle, 'as-written'>, ChordStyleSymbols> = {
+  standard: { major: 'maj', minor: 'm', diminished: 'dim', halfDiminished: null, augmented: 'aug' },
+  short: { major: 'M', minor: 'm', diminished: '°', halfDiminished: null, augmented: '+' },
+  jazz: { major: 'Δ', minor: '-', diminished: '°', halfDiminished: 'ø', augmented: '+' }
+};
+
+// Semitones above the root for added and altered degrees
+const DEGREE_SEMITONES: Record<string, number> = {
+  '2': 2, '4': 5, '5': 7, '6': 9, '9': 14, '11': 17, '13': 21
+};
+
+// Tokens that stand in for a chord and are always valid
+const SPECIAL_CHORDS = ['N.C.', 'N.C', 'NC', '%'];
+
+// Each modifier that may follow the quality and extension, in the order tried
+const MODIFIERS: Array<{ pattern: RegExp; apply: (chord: ParsedChord, match: RegExpMatchArray) => void }> = [
+  { pattern: /^sus(2|4)?/, apply: (chord, m) => { chord.sus = (m[1] || '4') as '2' | '4'; } },
+  { pattern: /^add\s*([#b]?(?:2|4|6|9|11|13))/, apply: (chord, m) => { chord.added.push(m[1]); } },
+  { pattern: /^(?:no|omit)\s*(3|5)/, apply: (chord, m) => { chord.omitted.push(m[1]); } },
+  { pattern: /^([b#+-])(5|9|11|13)/, apply: (chord, m) => { chord.alterations.push(`${m[1] === '+' ? '#' : m[1] === '-' ? 'b' : m[1]}${m[2]}`); } },
+  { pattern: /^alt/, apply: chord => { chord.alterations.push('alt'); } },
+  { pattern: /^(2|4|9|11|13)/, apply: (chord, m) => { chord.added.push(m[1]); } },
+  { pattern: /^[(),\s]/, apply: () => {} }
+];
+
+export class ChordGrammar {
+  /**
+   * Parse a chord symbol. Returns null for anything that isn't a chord,
+   * including special tokens like N.C. and % (see isSpecial).
+   */
+  static parse(symbol: string): ParsedChord | null {
+    return this.parseWithError(symbol).chord;
+  }
+
+  static isSpecial(symbol: string): boolean {
+    return SPECIAL_CHORDS.includes(symbol.trim());
+  }
+
+  /**
+   * Check a chord symbol, returning a message describing the problem or null
+   * when it is a valid chord or special token
+   */
+  static validate(symbol: string): string | null {
+    if (this.isSpecial(symbol)) return null;
+    return this.parseWithError(symbol).error;
+  }
+
+  /**
+   * Render a chord symbol in a house style. Symbols that don't parse, special
+   * tokens, and the "as-written" style are returned unchanged.
+   */
+  static normalise(symbol: string, style: ChordStyle): string {
+    if (style === 'as-written') return symbol;
+    const chord = this.parse(symbol);
+    return chord ? this.format(chord, style) : symbol;
+  }
+
+  static format(chord: ParsedChord, style: Exclude<ChordStyle, 'as-written'>): string {
+    const symbols = CHORD_STYLES[style];
+    const extension = chord.extension || '';
+    const majorSeventh = chord.majorSeventh ? `${symbols.major}${extension || '7'}` : extension;
+    let body: string;
+
+    switch (chord.quality) {
+      case 'power':
+        body = '5';
+        break;
+      case 'half-diminished':
+        body = symbols.halfDiminished
+          ? `${symbols.halfDiminished}${extension === '7' ? '' : extension}`
+          : `${symbols.minor}${extension || '7'}b5`;
+        break;
+      case 'diminished':
+        body = `${symbols.diminished}${extension}`;
+        break;
+      case 'augmented':
+        body = `${symbols.augmented}${majorSeventh}`;
+        break;
+      case 'minor':
+        // "Cmmaj7" is hard to read, so the word form is bracketed: Cm(maj7)
+        body = chord.majorSeventh && symbols.major === 'maj'
+          ? `${symbols.minor}(${majorSeventh})`
+          : `${symbols.minor}${majorSeventh}`;
+        break;
+      default:
+        body = majorSeventh;
+    }
+
+    // A bare "C2" or "C4" keeps its short worship-chart form
+    const plain = !body && !chord.sus && chord.alterations.length === 0;
+    const added = chord.added
+      .map(degree => plain && chord.added.length === 1 && (degree === '2' || degree === '4') ? degree : `add${degree}`)
+      .join('');
+
+    const symbol = chord.root + body +
+      (chord.sus ? `sus${chord.sus}` : '') +
+      added +
+      chord.alterations.join('') +
+      chord.omitted.map(degree => `no${degree}`).join('') +
+      (chord.bass ? `/${chord.bass}` : '');
+
+    return chord.lower ? `${symbol}|${this.format(chord.lower, style)}` : symbol;
+  }
+
+  /**
+   * Reduce a chord symbol for beginners: extensions, added notes and
+   * alterations are dropped, sus chords become their resolution and power
+   * chords become major. Symbols that don't parse are returned unchanged.
+   */
+  static simplify(symbol: string, level: ChordSimplification): string {
+    if (level === 'full') return symbol;
+    const chord = this.parse(symbol);
+    if (!chord) return symbol;
+
+    const keepsSeventh = level === 'simplified' && chord.extension !== undefined;
+    const extension = keepsSeventh ? (chord.extension === '6' || chord.extension === '6/9' ? '6' : '7') : undefined;
+    let quality = chord.quality === 'power' ? 'major' : chord.quality;
+    if (quality === 'half-diminished' && !keepsSeventh) quality = 'diminished';
+
+    return this.format({
+      root: chord.root,
+      quality,
+      extension,
+      majorSeventh: extension === '7' && chord.majorSeventh,
+      added: [],
+      alterations: [],
+      omitted: [],
+      bass: level === 'simplified' ? chord.bass : undefined
+    }, 'standard');
+  }
+
+  /**
+   * The notes of a chord as semitones above its root, lowest first. A plain
+   * fifth is marked optional since voicings with few strings often drop it.
+   */
+  static getTones(chord: ParsedChord): Array<{ semitones: number; optional?: boolean }> {
+    const tones: Array<{ semitones: number; optional?: boolean }> = [{ semitones: 0 }];
+    const degree = (text: string) => {
+      const match = text.match(/^([#b]?)(\d+)$/);
+      if (!match || DEGREE_SEMITONES[match[2]] === undefined) return null;
+      return DEGREE_SEMITONES[match[2]] + (match[1] === '#' ? 1 : match[1] === 'b' ? -1 : 0);
+    };
+
+    // Third
+    if (chord.sus) {
+      tones.push({ semitones: chord.sus === '2' ? 2 : 5 });
+    } else if (chord.quality !== 'power' && !chord.omitted.includes('3')) {
+      tones.push({ semitones: chord.quality === 'major' || chord.quality === 'augmented' ? 4 : 3 });
+    }
+
+    // Fifth, unless an alteration replaces it
+    const alteredFifth = chord.alterations.find(alteration => /^[#b]5$/.test(alteration));
+    if (alteredFifth) {
+      tones.push({ semitones: degree(alteredFifth)! });
+    } else if (!chord.omitted.includes('5')) {
+      const fifth = chord.quality === 'diminished' || chord.quality === 'half-diminished' ? 6
+        : chord.quality === 'augmented' ? 8 : 7;
+      tones.push({ semitones: fifth, optional: chord.quality === 'major' || chord.quality === 'minor' });
+    }
+
+    // Sixth or seventh, and the upper extension itself
+    const extension = chord.extension;
+    if (extension === '6' || extension === '6/9') {
+      tones.push({ semitones: 9 });
+      if (extension === '6/9') tones.push({ semitones: 14 });
+    } else if (extension) {
+      const seventh = chord.majorSeventh ? 11 : chord.quality === 'diminished' ? 9 : 10;
+      tones.push({ semitones: seventh });
+      if (extension !== '7') tones.push({ semitones: degree(extension)! });
+    }
+
+    for (const text of [...chord.added, ...chord.alterations]) {
+      const semitones = degree(text);
+      if (semitones !== null && !/^[#b]5$/.test(text)) tones.push({ semitones });
+    }
+
+    return tones
+      .filter((tone, index) => tones.findIndex(t => t.semitones === tone.semitones) === index)
+      .sort((a, b) => a.semitones - b.semitones);
+  }
+
+  /**
+   * The note a bass player plays for a chord symbol: the slash bass if there
+   * is one, otherwise the root. Symbols that don't parse are returned unchanged.
+   */
+  static getBassNote(symbol: string): string {
+    let chord = this.parse(symbol);
+    if (!chord) return symbol;
+    while (chord.lower) chord = chord.lower;
+    return chord.bass || chord.root;
+  }
+
+  private static parseWithError(symbol: string): { chord: ParsedChord | null; error: string | null } {
+    const text = symbol.trim().replace(/♯/g, '#').replace(/♭/g, 'b');
+    if (!text) return { chord: null, error: 'Empty chord' };
+
+    // Polychords: "D|C" is D over C
+    const pipe = text.indexOf('|');
+    if (pipe !== -1) {
+      const upper = this.parseWithError(text.slice(0, pipe));
+      const lower = this.parseWithError(text.slice(pipe + 1));
+      if (!upper.chord || !lower.chord) return { chord: null, error: upper.error || lower.error };
+      return { chord: { ...upper.chord, lower: lower.chord }, error: null };
+    }
+
+    const rootMatch = text.match(/^([A-G][#b]?)/);
+    if (!rootMatch) return { chord: null, error: `"${symbol}" is not a chord` };
+
+    // A trailing "/E" is a bass note; "6/9" is part of the chord
+    const slash = text.match(/^(.*?)\/([^/]+)$/);
+    let suffix = text.slice(rootMatch[1].length);
+    let bass: string | undefined;
+    if (slash && !(/6$/.test(slash[1]) && slash[2] === '9')) {
+      if (!/^[A-G][#b]?$/.test(slash[2])) {
+        return { chord: null, error: `"${slash[2]}" in "${symbol}" is not a bass note` };
+      }
+      bass = slash[2];
+      suffix = slash[1].slice(rootMatch[1].length);
+    }
+
+    const chord: ParsedChord = { root: rootMatch[1], quality: 'major', added: [], alterations: [], omitted: [], bass };
+    let rest = suffix;
+    const take = (pattern: RegExp) => {
+      const match = rest.match(pattern);
+      if (match) rest = rest.slice(match[0].length);
+      return match;
+    };
+
+    // Quality
+    if (take(/^(ø|Ø)/)) {
+      chord.quality = 'half-diminished';
+      chord.extension = '7';
+    } else if (take(/^(dim|°|o(?=\d))/)) {
+      chord.quality = 'diminished';
+    } else if (take(/^(aug|\+)/)) {
+      chord.quality = 'augmented';
+    } else if (!/^(maj|Maj|ma(?!j))/.test(rest) && take(/^(min|mi(?!n)|m|-)/)) {
+      chord.quality = 'minor';
+    } else if (/^5(?!\d)/.test(rest) && rest.length === 1) {
+      take(/^5/);
+      chord.quality = 'power';
+    }
+
+    // Major seventh marker and extension: maj7, M9, Δ, (maj7), 7, 9, 6/9...
+    const majorSeventh = take(/^\(?(maj|Maj|MAJ|ma|M|Δ|j)(7|9|11|13)?\)?/);
+    if (majorSeventh) {
+      // A bare "M" only means major
+      if (majorSeventh[1] !== 'M' || majorSeventh[2]) {
+        chord.majorSeventh = true;
+        chord.extension = majorSeventh[2] || '7';
+      }
+    } else {
+      const extension = take(/^(6\/9|69|13|11|9|7|6)/);
+      if (extension) {
+        chord.extension = extension[1] === '69' ? '6/9' : extension[1];
+      }
+    }
+
+    // Remaining modifiers: sus, add, alterations, omissions
+    while (rest.length > 0) {
+      const modifier = MODIFIERS.find(m => m.pattern.test(rest));
+      if (!modifier) {
+        return { chord: null, error: `Unrecognised "${rest}" in chord "${symbol}"` };
+      }
+      modifier.apply(chord, take(modifier.pattern)!);
+    }
+
+    // m7b5 is a half-diminished chord
+    if (chord.quality === 'minor' && chord.extension === '7' && !chord.majorSeventh && chord.alterations.includes('b5')) {
+      chord.quality = 'half-diminished';
+      chord.alterations = chord.alterations.filter(alteration => alteration !== 'b5');
+    }
+
+    return { chord, error: null };
+  }
+}
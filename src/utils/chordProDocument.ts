@@ -0,0 +1,53 @@
+import type { ChordProDocument, ChordProSourceLine } from '../types';
+
+// Line-level concrete syntax tree for ChordPro files. Every source line is kept
+// verbatim so a file can be written back byte-for-byte, with ChordProParser
+// annotating each line with the role it played when building the Song.
+export class ChordProSource {
+  /**
+   * Split ChordPro text into source lines, remembering the line ending used
+   */
+  static fromText(content: string): ChordProDocument {
+    const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines: ChordProSourceLine[] = content
+      .split(lineEnding)
+      .map(text => ({ text, role: 'other' }));
+
+    return { lines, lineEnding, fields: {} };
+  }
+
+  /**
+   * Join source lines back into ChordPro text
+   */
+  static toText(lines: string[], lineEnding: ChordProDocument['lineEnding']): string {
+    return lines.join(lineEnding);
+  }
+
+  /**
+   * Replace the value of a metadata line, keeping its syntax and spacing:
+   * "{tempo: 72}", "{meta: album Foo}" and "Key: [G]" style lines are supported.
+   */
+  static replaceValue(text: string, value: string): string {
+    if (text.trim().startsWith('{')) {
+      const meta = text.match(/^(\s*\{\s*meta\s*:\s*\S+\s+).*?(\s*\}\s*)$/i);
+      if (meta) return `${meta[1]}${value}${meta[2]}`;
+
+      const directive = text.match(/^(\s*\{[^:}]*:\s*).*?(\s*\}\s*)$/);
+      if (directive) return `${directive[1]}${value}${directive[2]}`;
+
+      const bare = text.match(/^(\s*\{[^}]*?)(\s*\}\s*)$/);
+      return bare ? `${bare[1]}: ${value}${bare[2]}` : text;
+    }
+
+    const header = text.match(/^(\s*[^:]+:\s*)(.*?)(\s*)$/);
+    if (!header) {
+      // A value on its own, like the title line of an OnSong file
+      const bareValue = text.match(/^(\s*).*?(\s*)$/)!;
+      return `${bareValue[1]}${value}${bareValue[2]}`;
+    }
+
+    // Keep bracketed values bracketed, e.g. "Key: [G]"
+    const bracketed = /^\[.*\]$/.test(header[2]);
+    return `${header[1]}${bracketed ? `[${value}]` : value}${header[3]}`;
+  }
+}
@@ -0,0 +1,87 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { ChordProParser } from './chordProParser';
+
+const SONGS_DIR = new URL('../../public/data/songs/', import.meta.url);
+const songFiles = readdirSync(SONGS_DIR).filter(file => file.endsWith('.chordpro'));
+
+const DIRECTIVES = [
+  '{title: Amazing Grace}',
+  '{artist: John Newton}',
+  '{key: G}',
+  '{tempo: 72}',
+  '',
+  '{start_of_verse: Verse 1}',
+  'A[G]mazing [G7]grace, how [C]sweet the [G]sound',
+  'That [G]saved a wretch like [D]me',
+  '{end_of_verse}',
+  ''
+].join('\r\n');
+
+const changedLines = (before: string, after: string) => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  return b.map((line, index) => [index, line] as const).filter(([index, line]) => a[index] !== line);
+};
+
+describe('ChordProParser.songToChordPro', () => {
+  it.each(songFiles)('writes %s back byte-for-byte', file => {
+    const content = readFileSync(new URL(file, SONGS_DIR), 'utf8');
+    const { song } = ChordProParser.parse(content, file);
+
+    expect(ChordProParser.songToChordPro(song)).toBe(content);
+  });
+
+  it('keeps CRLF line endings and directive syntax', () => {
+    const { song } = ChordProParser.parse(DIRECTIVES, 'amazing-grace');
+
+    expect(ChordProParser.songToChordPro(song)).toBe(DIRECTIVES);
+  });
+
+  it('rewrites only the metadata line that was edited', () => {
+    const { song } = ChordProParser.parse(DIRECTIVES, 'amazing-grace');
+    song.tempo = 80;
+
+    const output = ChordProParser.songToChordPro(song);
+    expect(changedLines(DIRECTIVES, output)).toEqual([[3, '{tempo: 80}']]);
+    expect(output).toContain('\r\n');
+  });
+
+  it('rewrites only the lyric line that was edited', () => {
+    const { song } = ChordProParser.parse(DIRECTIVES, 'amazing-grace');
+    song.sections[0].content[1] = { ...song.sections[0].content[1], lyrics: 'That saved a sinner like me' };
+
+    expect(changedLines(DIRECTIVES, ChordProParser.songToChordPro(song)))
+      .toEqual([[7, 'That [G]saved a sinner like [D]me']]);
+  });
+
+  it('inserts a new line after the previous line of its section', () => {
+    const { song } = ChordProParser.parse(DIRECTIVES, 'amazing-grace');
+    song.sections[0].content.push({ lyrics: 'I once was lost', chords: [{ chord: 'G', position: 0 }] });
+
+    const output = ChordProParser.songToChordPro(song).split('\r\n');
+    expect(output.slice(7, 10)).toEqual(['That [G]saved a wretch like [D]me', '[G]I once was lost', '{end_of_verse}']);
+  });
+
+  it('keeps the header style of the source file when editing a field', () => {
+    const file = songFiles[0];
+    const content = readFileSync(new URL(file, SONGS_DIR), 'utf8');
+    const { song } = ChordProParser.parse(content, file);
+    song.title = 'Edited Title';
+
+    const changed = changedLines(content, ChordProParser.songToChordPro(song));
+    expect(changed).toHaveLength(1);
+    expect(changed[0][1]).toMatch(/^Title: Edited Title$/);
+  });
+
+  it('round-trips a re-parsed song to the same text', () => {
+    for (const file of songFiles) {
+      const content = readFileSync(new URL(file, SONGS_DIR), 'utf8');
+      const { song } = ChordProParser.parse(content, file);
+      const reparsed = ChordProParser.parse(ChordProParser.songToChordPro(song), file).song;
+
+      expect(reparsed.sections.map(section => section.content.map(line => line.lyrics)))
+        .toEqual(song.sections.map(section => section.content.map(line => line.lyrics)));
+    }
+  });
+});
@@ -1,4 +1,9 @@
-import type { Song, SongSection, ChordLyricLine, ChordPosition } from '../types';
+import type { Song, SongSection, ChordLyricLine, ChordPosition, ChordProSourceLine, ChordDefinition } from '../types';
+import { ChordProSource } from './chordProDocument';
+import { SectionTypes } from './sectionTypes';
+import { ChordGrammar } from './chordGrammar';
+import { ChordTransposer } from './chordTransposer';
+import { KeyDetector } from './keyDetector';
 
 export interface ChordProMetadata {
   title?: string;
@@ -10,62 +15,310 @@ export interface ChordProMetadata {
   notes?: string;
   scriptureReference?: string;
   book?: string;
+  ccli?: string;
+  copyright?: string;
+  time?: string;
+  flow?: string;
+  custom?: Record<string, string>; // {meta: ...} and any unrecognised keys
+  definitions?: ChordDefinition[]; // {define: ...} voicings
+  invalid?: string[]; // Messages for values that could not be parsed
 }
 
+export interface ChordProDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+// ChordPro variants written by other tools. SongSelect labels sections with
+// {comment: Verse 1} or bare "Verse 1" lines; OnSong puts the title and
+// artist on the first two lines without keys.
+export type ChordProDialect = 'chordpro' | 'songselect' | 'onsong';
+
+// Metadata lines OnSong writes under the title, e.g. "Key: G" or "Tempo: 72"
+const ONSONG_METADATA = /^(key|tempo|time|capo|ccli|copyright)\s*:\s*\S/i;
+
+export interface ChordProParseOptions {
+  strict?: boolean; // Reject files with any warnings or errors
+  dialect?: ChordProDialect; // Detected from the content when not given
+}
+
+export interface ChordProParseResult {
+  song: Song;
+  diagnostics: ChordProDiagnostic[];
+}
+
+export class ChordProParseError extends Error {
+  diagnostics: ChordProDiagnostic[];
+
+  constructor(diagnostics: ChordProDiagnostic[]) {
+    const first = diagnostics[0];
+    super(first
+      ? `Line ${first.line}: ${first.message}${diagnostics.length > 1 ? ` (and ${diagnostics.length - 1} more)` : ''}`
+      : 'Invalid ChordPro file');
+    this.name = 'ChordProParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export interface ChordProEnvironmentDirective {
+  action: 'start' | 'end';
+  type: SongSection['type'];
+  label?: string;
+}
+
+// Short forms of the standard ChordPro environment directives
+const ENVIRONMENT_SHORTHANDS: Record<string, string> = {
+  sov: 'start_of_verse',
+  eov: 'end_of_verse',
+  soc: 'start_of_chorus',
+  eoc: 'end_of_chorus',
+  sob: 'start_of_bridge',
+  eob: 'end_of_bridge',
+  sot: 'start_of_tab',
+  eot: 'end_of_tab',
+  sog: 'start_of_grid',
+  eog: 'end_of_grid'
+};
+
+// Comment directives and the style each is displayed in
+const COMMENT_DIRECTIVES: Record<string, NonNullable<ChordLyricLine['comment']>> = {
+  c: 'normal',
+  comment: 'normal',
+  ci: 'italic',
+  comment_italic: 'italic',
+  cb: 'box',
+  comment_box: 'box',
+  highlight: 'highlight'
+};
+
+const COMMENT_DIRECTIVE_NAMES: Record<NonNullable<ChordLyricLine['comment']>, string> = {
+  normal: 'c',
+  italic: 'ci',
+  box: 'cb',
+  highlight: 'highlight'
+};
+
+// Song field each parsed ChordProMetadata key ends up in
+const METADATA_FIELDS = {
+  title: 'title',
+  artist: 'artist',
+  key: 'originalKey',
+  originalKey: 'originalKey',
+  capo: 'capoPosition',
+  tempo: 'tempo',
+  notes: 'notes',
+  scriptureReference: 'scriptureReference',
+  book: 'book',
+  ccli: 'ccli',
+  copyright: 'copyright',
+  time: 'timeSignature',
+  flow: 'flow'
+} as const;
+
+// How each Song field is written when it has to be added to a file
+const FIELD_NAMES: Record<string, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  originalKey: 'Key',
+  capoPosition: 'Capo',
+  tempo: 'Tempo',
+  notes: 'Notes',
+  scriptureReference: 'Scripture Reference(s)',
+  book: 'Book',
+  timeSignature: 'Time',
+  flow: 'Flow',
+  ccli: 'CCLI',
+  copyright: 'Copyright'
+};
+
 export class ChordProParser {
   static parseChordPro(content: string, id: string): Song {
-    const lines = content.split('\n');
+    return this.parse(content, id).song;
+  }
+  
+  /**
+   * Parse a ChordPro file, returning the song with line-numbered diagnostics
+   * for anything malformed. In strict mode any warning or error rejects the
+   * file with a ChordProParseError.
+   */
+  static parse(content: string, id: string, options: ChordProParseOptions = {}): ChordProParseResult {
+    const diagnostics: ChordProDiagnostic[] = [];
+    const report = (index: number, column: number, severity: ChordProDiagnostic['severity'], message: string) => {
+      diagnostics.push({ line: index + 1, column: column + 1, severity, message });
+    };
+    const document = ChordProSource.fromText(content);
+    const dialect = options.dialect ?? this.detectDialect(content);
+    const lines = document.lines;
     const metadata: ChordProMetadata = {};
     const sections: SongSection[] = [];
     let currentSection: SongSection | null = null;
+    // Set while inside a {start_of_*} ... {end_of_*} block
+    let environment: SongSection['type'] | null = null;
+    
+    const addLine = (section: SongSection, chordLyricLine: ChordLyricLine, index: number) => {
+      chordLyricLine.sourceLine = index;
+      lines[index].role = 'content';
+      lines[index].value = this.renderLine(chordLyricLine);
+      section.content.push(chordLyricLine);
+    };
+    const startSection = (section: SongSection, index: number) => {
+      if (currentSection) {
+        sections.push(currentSection);
+      }
+      section.sourceLine = index;
+      lines[index].role = 'section-start';
+      currentSection = section;
+    };
     
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
+      const line = lines[i].text.trim();
+      const indent = lines[i].text.length - lines[i].text.trimStart().length;
+      
+      // Tab and grid blocks are kept verbatim, including blank lines
+      if (currentSection && this.isPreformatted(environment) && !this.parseEnvironmentDirective(line)) {
+        addLine(currentSection, { lyrics: lines[i].text.replace(/\s+$/, ''), chords: [] }, i);
+        continue;
+      }
       
       // Skip empty lines
-      if (!line) continue;
+      if (!line) {
+        lines[i].role = 'blank';
+        continue;
+      }
       
       // Parse metadata directives
       if (line.startsWith('{') && line.endsWith('}')) {
-        this.parseDirective(line, metadata);
+        const environmentDirective = this.parseEnvironmentDirective(line);
+        if (environmentDirective) {
+          if (environmentDirective.action === 'start') {
+            startSection(this.createEnvironmentSection(environmentDirective.type, environmentDirective.label), i);
+            environment = environmentDirective.type;
+          } else {
+            if (!environment) {
+              report(i, indent, 'warning', `${line} has no matching start directive`);
+            } else if (environment !== environmentDirective.type) {
+              report(i, indent, 'warning', `${line} closes a ${environment} block`);
+            }
+            if (currentSection) {
+              lines[i].role = 'section-end';
+              lines[i].owner = currentSection.sourceLine;
+              sections.push(currentSection);
+            }
+            currentSection = null;
+            environment = null;
+          }
+          continue;
+        }
+        const comment = this.parseCommentDirective(line);
+        if (comment) {
+          // SongSelect labels sections with comments
+          if (dialect === 'songselect' && SectionTypes.isLabel(comment.lyrics)) {
+            startSection(this.createSection(`${comment.lyrics}:`), i);
+            continue;
+          }
+          // Comments before the first section start an untitled one
+          if (!currentSection) {
+            currentSection = { type: 'verse', content: [] };
+          }
+          addLine(currentSection, comment, i);
+          continue;
+        }
+        const recall = this.parseChorusRecall(line, sections, currentSection);
+        if (recall) {
+          startSection(recall, i);
+          sections.push(recall);
+          currentSection = null;
+          environment = null;
+          continue;
+        }
+        this.trackMetadata(lines[i], metadata, () => this.parseDirective(line, metadata));
+        this.reportInvalidMetadata(metadata, message => report(i, indent, 'warning', message));
         continue;
       }
       
-      // Parse section headers (Verse 1:, Chorus:, etc.)
-      if (line.endsWith(':') && !this.containsChords(line)) {
-        // Check if this is a section header (not metadata)
-        const lowerLine = line.toLowerCase();
-        const isSectionHeader = lowerLine.includes('verse') || 
-                               lowerLine.includes('chorus') || 
-                               lowerLine.includes('bridge') || 
-                               lowerLine.includes('intro') || 
-                               lowerLine.includes('outro') || 
-                               lowerLine.includes('tag');
+      if (line.startsWith('{') && !line.includes('}')) {
+        report(i, indent, 'warning', 'Directive is missing its closing "}"');
+        continue;
+      }
+      
+      // Inside an environment block every line is song content
+      if (!environment) {
+        if (dialect === 'songselect' && SectionTypes.isLabel(line)) {
+          startSection(this.createSection(`${line}:`), i);
+          continue;
+        }
+        // OnSong files open with the title and artist on their own lines
+        if (dialect === 'onsong' && !currentSection && !metadata.artist && !line.includes(':') && !this.containsChords(line)) {
+          this.trackMetadata(lines[i], metadata, () => {
+            if (metadata.title) {
+              metadata.artist = line;
+            } else {
+              metadata.title = line;
+            }
+          });
+          continue;
+        }
         
-        if (isSectionHeader) {
-          if (currentSection) {
-            sections.push(currentSection);
+        // Parse section headers (Verse 1:, Chorus:, etc.)
+        if (line.endsWith(':') && !this.containsChords(line)) {
+          // Check if this is a section header (not metadata)
+          if (this.isSectionHeader(line)) {
+            startSection(this.createSection(line), i);
+            continue;
+          } else if (this.trackMetadata(lines[i], metadata, () => this.parseHeaderMetadata(line, metadata, !currentSection))) {
+            // This is metadata (Title:, Artist:, etc.)
+            continue;
+          } else if (/^[A-Za-z][\w' -]{0,30}:$/.test(line)) {
+            report(i, indent, 'warning', `Unknown section header "${line}" is shown as a lyric`);
           }
-          currentSection = this.createSection(line);
-          continue;
-        } else {
-          // This is metadata (Title:, Artist:, etc.)
-          this.parseHeaderMetadata(line, metadata);
+        }
+        
+        // Parse metadata from header format that doesn't end with colon.
+        // Unrecognised keys are only metadata before the first section;
+        // after that the line is treated as a lyric. "Key: [G]" style
+        // headers bracket their value like a chord.
+        if (line.includes(':') && (!this.containsChords(line) || /^[^[\]:]+:\s*\[[^\]]+\]$/.test(line)) && !line.endsWith(':') &&
+            this.trackMetadata(lines[i], metadata, () => this.parseHeaderMetadata(line, metadata, !currentSection))) {
+          this.reportInvalidMetadata(metadata, message => report(i, indent, 'warning', message));
           continue;
         }
       }
       
-      // Parse metadata from header format that doesn't end with colon
-      if (line.includes(':') && !this.containsChords(line) && !line.endsWith(':')) {
-        this.parseHeaderMetadata(line, metadata);
-        continue;
+      const unbalanced = this.findUnbalancedBracket(lines[i].text);
+      if (unbalanced !== -1) {
+        report(i, unbalanced, 'error', `Unbalanced "${lines[i].text[unbalanced]}" in chord line`);
+      }
+      
+      // Lines before any section start an untitled one rather than being lost
+      if (!currentSection) {
+        report(i, indent, 'warning', 'Line is outside any section');
+        currentSection = { type: 'verse', content: [] };
       }
       
       // Parse chord/lyric lines
-      if (currentSection && (this.containsChords(line) || line.length > 0)) {
+      if (this.containsChords(line) || line.length > 0) {
         const chordLyricLine = this.parseChordLyricLine(line);
         if (chordLyricLine) {
-          currentSection.content.push(chordLyricLine);
+          // A bare "x2" line repeats the whole section
+          if (chordLyricLine.repeat && !chordLyricLine.lyrics.trim() && chordLyricLine.chords.length === 0) {
+            currentSection.repeat = chordLyricLine.repeat;
+            lines[i].role = 'section-repeat';
+            lines[i].owner = currentSection.sourceLine;
+            lines[i].value = String(chordLyricLine.repeat);
+          } else {
+            let searchFrom = 0;
+            for (const { chord } of chordLyricLine.chords) {
+              const column = lines[i].text.indexOf(`[${chord}]`, searchFrom);
+              searchFrom = column + chord.length + 2;
+              const problem = ChordGrammar.validate(chord);
+              if (problem) {
+                report(i, column + 1, 'warning', problem);
+              }
+            }
+            addLine(currentSection, chordLyricLine, i);
+          }
         }
       }
     }
@@ -73,27 +326,211 @@ export class ChordProParser {
     // Add the last section
     if (currentSection) {
       sections.push(currentSection);
+      if (environment && currentSection.sourceLine !== undefined) {
+        report(currentSection.sourceLine, 0, 'warning', `${currentSection.name || environment} block is never closed`);
+      }
     }
     
-    return {
+    this.linkSectionRecalls(sections);
+    
+    for (const section of sections) {
+      if (section.reference && section.sourceLine !== undefined && !this.findReferencedSection(sections, section)) {
+        report(section.sourceLine, 0, 'warning', `"${section.name}" recalls "${section.reference}" but no such section is written out`);
+      }
+    }
+    
+    // Snapshot what each section header parsed to, so edits can be detected
+    for (const section of sections) {
+      if (section.sourceLine !== undefined) {
+        lines[section.sourceLine].value = this.sectionSignature(section);
+      }
+    }
+    
+    // Without a declared key, work it out from the chords; a declared key
+    // that the chords clearly contradict is flagged
+    const chords = sections.flatMap(section =>
+      section.content.flatMap(line => line.chords.map(chordPos => chordPos.chord))
+    );
+    const keyLine = Math.max(lines.findIndex(line => line.field === 'originalKey'), 0);
+    const keyText = metadata.originalKey || metadata.key;
+    const declaredKey = keyText ? ChordTransposer.parseKey(keyText) : null;
+    if (keyText && !declaredKey) {
+      report(keyLine, 0, 'warning', `Key "${keyText}" is not a key and was ignored`);
+    }
+    let originalKey = declaredKey;
+    if (!declaredKey) {
+      originalKey = KeyDetector.detect(chords)?.key ?? null;
+      if (originalKey) {
+        report(0, 0, 'info', `No key is declared; the chords suggest ${ChordTransposer.formatKey(originalKey)}`);
+      }
+    } else {
+      const mismatch = KeyDetector.findMismatch(chords, declaredKey);
+      // With a capo the chords may be written as the shapes played
+      const capoShapes = metadata.capo && !KeyDetector.findMismatch(chords, ChordTransposer.getShapeKey(declaredKey, metadata.capo));
+      if (mismatch && !capoShapes) {
+        report(keyLine, 0, 'warning', `Key "${ChordTransposer.formatKey(declaredKey)}" doesn't match the chords, which suggest ${ChordTransposer.formatKey(mismatch.key)}`);
+      }
+    }
+    
+    const song: Song = {
       id,
       title: metadata.title || 'Unknown Title',
       artist: metadata.artist || 'Unknown Artist',
-      originalKey: metadata.originalKey || metadata.key || 'C',
+      originalKey: originalKey || ChordTransposer.DEFAULT_KEY,
       capoPosition: metadata.capo || 0,
       tempo: metadata.tempo,
+      ...(metadata.time && { timeSignature: metadata.time }),
+      ...(metadata.flow && { flow: metadata.flow.split(/\s+/).filter(Boolean) }),
       sections,
+      ...(metadata.definitions && { chordDefinitions: metadata.definitions }),
+      source: document,
       metadata: {
         createdAt: new Date(),
         updatedAt: new Date(),
-        tags: []
+        tags: [],
+        ...(metadata.notes && { notes: metadata.notes }),
+        ...(metadata.scriptureReference && { scriptureReference: metadata.scriptureReference }),
+        ...(metadata.book && { book: metadata.book }),
+        ...(metadata.ccli && { ccli: metadata.ccli }),
+        ...(metadata.copyright && { copyright: metadata.copyright }),
+        ...(metadata.custom && { custom: metadata.custom })
       }
     };
+    
+    for (const field of this.getMetadataFields(song)) {
+      document.fields[field] = this.getFieldValue(song, field);
+    }
+    
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    if (options.strict && diagnostics.some(d => d.severity !== 'info')) {
+      throw new ChordProParseError(diagnostics);
+    }
+    
+    return { song, diagnostics };
+  }
+  
+  private static reportInvalidMetadata(metadata: ChordProMetadata, report: (message: string) => void): void {
+    metadata.invalid?.forEach(report);
+    delete metadata.invalid;
+  }
+  
+  /**
+   * Index of the first "[" without a closing "]" (or stray "]"), or -1
+   */
+  static findUnbalancedBracket(line: string): number {
+    let open = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '[') {
+        if (open !== -1) return open;
+        open = i;
+      } else if (line[i] === ']') {
+        if (open === -1) return i;
+        open = -1;
+      }
+    }
+    return open;
+  }
+  
+  /**
+   * Parse a whole-number metadata value such as a capo or tempo ("72" or
+   * "72 bpm"), noting values that aren't numbers
+   */
+  private static parseNumber(name: string, value: string, metadata: ChordProMetadata): number | undefined {
+    const match = value.match(/^(\d+)\s*[a-z]*$/i);
+    if (match) return parseInt(match[1], 10);
+    
+    metadata.invalid = [...(metadata.invalid || []), `${name} "${value}" is not a number and was ignored`];
+    return undefined;
+  }
+  
+  /**
+   * Parse the value of a {define} directive, e.g.
+   * "Asus2 base-fret 1 frets x 0 2 2 0 0 fingers 0 0 1 2 0 0", noting
+   * definitions that can't be read
+   */
+  private static parseChordDefinition(value: string, metadata: ChordProMetadata): ChordDefinition | undefined {
+    const match = value.match(/^(\S+)\s+(?:base-fret\s+(\d+)\s+)?frets((?:\s+(?:-?\d+|[xXN]))+)(?:\s+fingers((?:\s+(?:\d+|[xXN-]))+))?\s*$/);
+    if (!match) {
+      metadata.invalid = [...(metadata.invalid || []), `Chord definition "${value}" could not be read and was ignored`];
+      return undefined;
+    }
+    
+    // x, N and -1 all mean the string isn't played
+    const toFrets = (text: string) => text.trim().split(/\s+/)
+      .map(fret => /^-?\d+$/.test(fret) && parseInt(fret, 10) >= 0 ? parseInt(fret, 10) : null);
+    return {
+      name: match[1],
+      baseFret: match[2] ? Math.max(1, parseInt(match[2], 10)) : 1,
+      frets: toFrets(match[3]),
+      ...(match[4] && { fingers: toFrets(match[4]) })
+    };
+  }
+  
+  /**
+   * Parse a time signature such as "4/4" or "6/8", noting anything else
+   */
+  private static parseTimeSignature(value: string, metadata: ChordProMetadata): string | undefined {
+    const match = value.match(/^(\d+)\s*\/\s*(\d+)$/);
+    if (match) return `${match[1]}/${match[2]}`;
+    
+    metadata.invalid = [...(metadata.invalid || []), `Time "${value}" is not a time signature and was ignored`];
+    return undefined;
+  }
+  
+  /**
+   * Guess which tool wrote a ChordPro file from how it labels sections and
+   * metadata. Plain ChordPro is assumed unless a variant's habits are found.
+   * A bare first line alone is not enough for OnSong, as plenty of plain
+   * files start with a lyric; its metadata lines must follow before the
+   * first section.
+   */
+  static detectDialect(content: string): ChordProDialect {
+    const lines = content.split(/\r?\n/).map(line => line.trim());
+    const firstLine = lines.find(line => line.length > 0) || '';
+    const hasSectionMarkup = lines.some(line =>
+      (line.endsWith(':') && this.isSectionHeader(line)) || this.parseEnvironmentDirective(line));
+    const hasSectionLabels = lines.some(line => {
+      const comment = line.startsWith('{') && line.endsWith('}') ? this.parseCommentDirective(line) : null;
+      return SectionTypes.isLabel(comment ? comment.lyrics : line);
+    });
+    
+    const firstSection = lines.findIndex(line => line.endsWith(':') && this.isSectionHeader(line));
+    const hasOnSongMetadata = lines
+      .slice(0, firstSection === -1 ? lines.length : firstSection)
+      .some(line => ONSONG_METADATA.test(line));
+    
+    if (hasSectionLabels && !hasSectionMarkup) return 'songselect';
+    if (firstLine && !/[:{[]/.test(firstLine) && hasOnSongMetadata) return 'onsong';
+    return 'chordpro';
+  }
+  
+  /**
+   * Run a metadata parser for a source line and record which Song field, if
+   * any, it set. Returns the parser's result.
+   */
+  private static trackMetadata<T>(sourceLine: ChordProSourceLine, metadata: ChordProMetadata, parse: () => T): T {
+    const before = { ...metadata, custom: { ...metadata.custom } };
+    const result = parse();
+    
+    const changedKey = (Object.keys(METADATA_FIELDS) as Array<keyof typeof METADATA_FIELDS>)
+      .find(key => metadata[key] !== before[key]);
+    const changedCustom = Object.keys(metadata.custom || {})
+      .find(key => metadata.custom?.[key] !== before.custom[key]);
+    
+    if (changedKey) {
+      sourceLine.role = 'metadata';
+      sourceLine.field = METADATA_FIELDS[changedKey];
+    } else if (changedCustom !== undefined) {
+      sourceLine.role = 'metadata';
+      sourceLine.field = `custom:${changedCustom}`;
+    }
+    return result;
   }
   
   static parseDirective(line: string, metadata: ChordProMetadata): void {
     const directive = line.slice(1, -1); // Remove { and }
-    const [key, ...valueParts] = directive.split(':');
+    const [rawKey, ...valueParts] = directive.split(':');
+    const key = rawKey.trim();
     const value = valueParts.join(':').trim();
     
     switch (key.toLowerCase()) {
@@ -110,19 +547,48 @@ export class ChordProParser {
         metadata.key = value.replace(/^\[|\]$/g, '');
         break;
       case 'capo':
-        metadata.capo = parseInt(value, 10);
+        metadata.capo = this.parseNumber('Capo', value, metadata) ?? metadata.capo;
         break;
       case 'tempo':
-        metadata.tempo = parseInt(value, 10);
+        metadata.tempo = this.parseNumber('Tempo', value, metadata) ?? metadata.tempo;
+        break;
+      case 'define':
+      case 'chord': {
+        // {chord: Am} on its own only asks for a diagram to be shown
+        if (key.toLowerCase() === 'chord' && !/\sfrets\s/.test(value)) break;
+        const definition = this.parseChordDefinition(value, metadata);
+        if (definition) {
+          metadata.definitions = [...(metadata.definitions || []), definition];
+        }
+        break;
+      }
+      case 'meta': {
+        // {meta: name value}
+        const meta = value.match(/^(\S+)(?:\s+(.*))?$/);
+        if (meta) {
+          this.parseDirective(`{${meta[1]}: ${meta[2] ?? ''}}`, metadata);
+        }
+        break;
+      }
+      default:
+        if (value) {
+          this.parseHeaderMetadata(`${key}: ${value}`, metadata, true);
+        }
         break;
     }
   }
   
-  static parseHeaderMetadata(line: string, metadata: ChordProMetadata): void {
+  /**
+   * Parse a "Key: value" header line. Returns false when the key is not
+   * recognised and `allowCustom` is off, so the caller can treat the line as
+   * something else.
+   */
+  static parseHeaderMetadata(line: string, metadata: ChordProMetadata, allowCustom: boolean = true): boolean {
     const colonIndex = line.indexOf(':');
-    if (colonIndex === -1) return;
+    if (colonIndex === -1) return false;
     
-    const key = line.substring(0, colonIndex).trim().toLowerCase();
+    const rawKey = line.substring(0, colonIndex).trim();
+    const key = rawKey.toLowerCase();
     const value = line.substring(colonIndex + 1).trim();
     
     switch (key) {
@@ -140,10 +606,10 @@ export class ChordProParser {
         metadata.originalKey = value;
         break;
       case 'capo':
-        metadata.capo = parseInt(value, 10);
+        metadata.capo = this.parseNumber('Capo', value, metadata) ?? metadata.capo;
         break;
       case 'tempo':
-        metadata.tempo = parseInt(value, 10);
+        metadata.tempo = this.parseNumber('Tempo', value, metadata) ?? metadata.tempo;
         break;
       case 'notes':
         metadata.notes = value;
@@ -154,28 +620,166 @@ export class ChordProParser {
       case 'book':
         metadata.book = value;
         break;
+      case 'time':
+        metadata.time = this.parseTimeSignature(value, metadata) ?? metadata.time;
+        break;
+      case 'flow':
+        metadata.flow = value;
+        break;
+      case 'ccli':
+      case 'ccli #':
+      case 'ccli song #':
+      case 'ccli song number':
+        metadata.ccli = value.replace(/^#\s*/, '');
+        break;
+      case 'copyright':
+        metadata.copyright = value;
+        break;
+      default:
+        if (!allowCustom || !rawKey || !value) return false;
+        metadata.custom = { ...metadata.custom, [rawKey]: value };
+        break;
     }
+    return true;
   }
   
-  static createSection(line: string): SongSection {
-    const name = line.slice(0, -1).trim(); // Remove the colon
-    let type: SongSection['type'] = 'verse';
+  /**
+   * Parse {comment}, {c}, {ci}, {cb} and {highlight} into a comment line
+   */
+  static parseCommentDirective(line: string): ChordLyricLine | null {
+    const match = line.slice(1, -1).trim().match(/^([A-Za-z_]+)\s*(?::\s*(.*))?$/);
+    if (!match) return null;
+    
+    const style = COMMENT_DIRECTIVES[match[1].toLowerCase()];
+    if (!style) return null;
     
-    const lowerName = name.toLowerCase();
-    if (lowerName.includes('chorus')) {
-      type = 'chorus';
-    } else if (lowerName.includes('bridge')) {
-      type = 'bridge';
-    } else if (lowerName.includes('intro')) {
-      type = 'intro';
-    } else if (lowerName.includes('outro') || lowerName.includes('tag')) {
-      type = 'outro';
+    return { lyrics: (match[2] || '').trim(), chords: [], comment: style };
+  }
+  
+  static isSectionHeader(line: string): boolean {
+    return SectionTypes.fromName(line.replace(/:\s*$/, '')) !== undefined;
+  }
+  
+  /**
+   * Recognise {start_of_*}/{end_of_*} environment directives and their short
+   * forms ({soc}, {eoc}, ...). The optional label may be given as
+   * {soc: Chorus 2} or {start_of_chorus label="Chorus 2"}.
+   */
+  static parseEnvironmentDirective(line: string): ChordProEnvironmentDirective | null {
+    if (!line.startsWith('{') || !line.endsWith('}')) return null;
+    
+    const match = line.slice(1, -1).trim().match(/^([A-Za-z_]+)\s*(?::\s*(.*)|\s+(.*))?$/);
+    if (!match) return null;
+    
+    const name = match[1].toLowerCase();
+    const directive = ENVIRONMENT_SHORTHANDS[name] || name;
+    const environmentMatch = directive.match(/^(start|end)_of_([a-z_]+)$/);
+    if (!environmentMatch) return null;
+    
+    const environmentName = environmentMatch[2];
+    // Unknown environments such as {start_of_coda} keep their own type
+    const type: SongSection['type'] = SectionTypes.isKnownType(environmentName)
+      ? environmentName
+      : SectionTypes.fromName(environmentName.replace(/_/g, ' ')) ?? environmentName;
+    
+    let label = (match[2] ?? match[3] ?? '').trim();
+    const labelAttribute = label.match(/^label\s*=\s*"([^"]*)"$/);
+    if (labelAttribute) {
+      label = labelAttribute[1].trim();
     }
     
     return {
+      action: environmentMatch[1] as 'start' | 'end',
       type,
+      label: label || undefined
+    };
+  }
+  
+  static createEnvironmentSection(type: SongSection['type'], label?: string): SongSection {
+    const { text, repeat } = this.parseRepeatMarker(label || '');
+    return {
+      type,
+      name: text || SectionTypes.get(type).label,
+      content: [],
+      ...(repeat && { repeat })
+    };
+  }
+  
+  /**
+   * Parse a {chorus} or {chorus: label} recall directive. A label naming an
+   * earlier section recalls that section, otherwise the most recent chorus is
+   * recalled and the label is used as the display name.
+   */
+  static parseChorusRecall(line: string, sections: SongSection[], currentSection: SongSection | null): SongSection | null {
+    const match = line.slice(1, -1).trim().match(/^chorus\s*(?::\s*(.*))?$/i);
+    if (!match) return null;
+    
+    const { text: label, repeat } = this.parseRepeatMarker((match[1] || '').trim());
+    const previous = currentSection ? [...sections, currentSection] : sections;
+    const named = label
+      ? previous.find(section => !section.reference && section.name?.toLowerCase() === label.toLowerCase())
+      : undefined;
+    const target = named || [...previous].reverse().find(section => section.type === 'chorus' && !section.reference);
+    
+    return {
+      type: 'chorus',
+      name: label || target?.name || 'Chorus',
+      content: [],
+      reference: target?.name || label || 'Chorus',
+      ...(repeat && { repeat })
+    };
+  }
+  
+  /**
+   * Treat an empty section header ("Chorus:" with no lines) as a recall of the
+   * most recent written-out section with the same name, or failing that the
+   * same type.
+   */
+  static linkSectionRecalls(sections: SongSection[]): void {
+    sections.forEach((section, index) => {
+      if (section.reference || section.content.length > 0 || this.isPreformatted(section.type)) return;
+      
+      const earlier = sections.slice(0, index).reverse().filter(s => !s.reference && s.content.length > 0);
+      const target = earlier.find(s => s.name?.toLowerCase() === section.name?.toLowerCase()) ||
+                     earlier.find(s => s.type === section.type);
+      if (target) {
+        section.reference = target.name;
+      }
+    });
+  }
+  
+  /**
+   * Find the written-out section that a recall section refers to
+   */
+  static findReferencedSection<T extends Pick<SongSection, 'name' | 'reference'>>(sections: T[], section: T): T | undefined {
+    if (!section.reference) return undefined;
+    const reference = section.reference.toLowerCase();
+    return sections.find(s => !s.reference && s.name?.toLowerCase() === reference);
+  }
+  
+  /**
+   * Split a trailing repeat marker ("x2", "(x2)", "[x2]") off some text
+   */
+  static parseRepeatMarker(text: string): { text: string; repeat?: number } {
+    const match = text.match(/(^|\s)[([]?\s*[xX×]\s?(\d+)\s*[)\]]?\s*$/);
+    if (!match || match.index === undefined) return { text };
+    
+    const repeat = parseInt(match[2], 10);
+    if (repeat < 2) return { text };
+    return { text: text.slice(0, match.index).trimEnd(), repeat };
+  }
+  
+  static isPreformatted(type: SongSection['type'] | null): boolean {
+    return type === 'tab' || type === 'grid';
+  }
+  
+  static createSection(line: string): SongSection {
+    const { text: name, repeat } = this.parseRepeatMarker(line.slice(0, -1).trim()); // Remove the colon
+    return {
+      type: SectionTypes.fromName(name) ?? 'verse',
       name,
-      content: []
+      content: [],
+      ...(repeat && { repeat })
     };
   }
   
@@ -186,6 +790,9 @@ export class ChordProParser {
   static parseChordLyricLine(line: string): ChordLyricLine | null {
     if (!line.trim()) return null;
     
+    const { text, repeat } = this.parseRepeatMarker(line);
+    line = text;
+    
     const chords: ChordPosition[] = [];
     let lyrics = '';
     let position = 0;
@@ -210,56 +817,339 @@ export class ChordProParser {
       lyrics = line;
     }
     
-    return { lyrics, chords };
+    return repeat ? { lyrics, chords, repeat } : { lyrics, chords };
   }
   
+  /**
+   * Write a song out as ChordPro. Songs parsed from a file are written back
+   * through their source document, so an unedited song reproduces the file
+   * byte-for-byte and edits only touch the lines that changed.
+   */
   static songToChordPro(song: Song): string {
+    if (song.source) {
+      return this.patchSource(song);
+    }
+    
     let output = '';
     
     // Add metadata
     output += `Title: ${song.title}\n`;
     output += `Artist: ${song.artist}\n`;
-    output += `Key: [${song.originalKey}]\n`;
-    output += `Original Key: ${song.originalKey}\n`;
+    output += `Key: [${ChordTransposer.formatKey(song.originalKey)}]\n`;
+    output += `Original Key: ${ChordTransposer.formatKey(song.originalKey)}\n`;
     if (song.capoPosition) {
       output += `Capo: ${song.capoPosition}\n`;
     }
     if (song.tempo) {
       output += `Tempo: ${song.tempo}\n`;
     }
+    if (song.metadata.notes) {
+      output += `Notes: ${song.metadata.notes}\n`;
+    }
+    if (song.metadata.scriptureReference) {
+      output += `Scripture Reference(s): ${song.metadata.scriptureReference}\n`;
+    }
+    if (song.metadata.book) {
+      output += `Book: ${song.metadata.book}\n`;
+    }
+    if (song.timeSignature) {
+      output += `Time: ${song.timeSignature}\n`;
+    }
+    if (song.flow?.length) {
+      output += `Flow: ${song.flow.join(' ')}\n`;
+    }
+    if (song.metadata.ccli) {
+      output += `CCLI: ${song.metadata.ccli}\n`;
+    }
+    if (song.metadata.copyright) {
+      output += `Copyright: ${song.metadata.copyright}\n`;
+    }
+    for (const [key, value] of Object.entries(song.metadata.custom || {})) {
+      output += this.renderField(`custom:${key}`, value, false) + '\n';
+    }
+    for (const definition of song.chordDefinitions || []) {
+      output += `${this.renderChordDefinition(definition)}\n`;
+    }
     output += '\n';
     
     // Add sections
     for (const section of song.sections) {
-      output += `${section.name || section.type}:\n`;
+      output += this.renderSection(section).join('\n') + '\n\n';
+    }
+    
+    return output;
+  }
+  
+  /**
+   * Render a chord voicing as a {define} directive
+   */
+  static renderChordDefinition(definition: ChordDefinition): string {
+    const toText = (frets: (number | null)[]) => frets.map(fret => fret === null ? 'x' : String(fret)).join(' ');
+    const fingers = definition.fingers ? ` fingers ${toText(definition.fingers)}` : '';
+    return `{define: ${definition.name} base-fret ${definition.baseFret} frets ${toText(definition.frets)}${fingers}}`;
+  }
+  
+  /**
+   * Render a section with its header, lines and closing directive
+   */
+  static renderSection(section: SongSection): string[] {
+    const output: string[] = [];
+    const start = this.renderSectionStart(section);
+    if (start) {
+      output.push(start);
+    }
+    if (section.reference && section.type === 'chorus') {
+      return output;
+    }
+    
+    output.push(...section.content.map(line => this.renderLine(line)));
+    if (start?.startsWith('{start_of_')) {
+      output.push(`{end_of_${section.type}}`);
+    }
+    return output;
+  }
+  
+  /**
+   * Render the line that opens a section: a {chorus} recall, a
+   * {start_of_*} directive, or a "Name:" header. Untitled sections have none.
+   */
+  static renderSectionStart(section: SongSection): string | null {
+    const name = section.name || section.type;
+    const repeatMarker = section.repeat ? ` x${section.repeat}` : '';
+    
+    if (section.reference && section.type === 'chorus') {
+      const label = name === section.reference ? '' : name;
+      const argument = `${label}${repeatMarker}`.trim();
+      return argument ? `{chorus: ${argument}}` : '{chorus}';
+    }
+    
+    if (this.isPreformatted(section.type) || (!!section.name && !this.isSectionHeader(name))) {
+      return `{start_of_${section.type}: ${name}${repeatMarker}}`;
+    }
+    return section.name ? `${name}${repeatMarker}:` : null;
+  }
+  
+  /**
+   * Render a chord/lyric line with inline [chords]
+   */
+  static renderLine(line: ChordLyricLine): string {
+    if (line.comment) {
+      return `{${COMMENT_DIRECTIVE_NAMES[line.comment]}: ${line.lyrics}}`;
+    }
+    
+    const lineRepeat = line.repeat ? ` x${line.repeat}` : '';
+    if (line.chords.length === 0) {
+      return `${line.lyrics}${lineRepeat}`;
+    }
+    
+    let chordLine = '';
+    let currentPos = 0;
+    
+    // Sort chords by position
+    const sortedChords = [...line.chords].sort((a, b) => a.position - b.position);
+    
+    for (const chordPos of sortedChords) {
+      // Add lyrics up to this chord position
+      chordLine += line.lyrics.substring(currentPos, chordPos.position);
+      // Add the chord
+      chordLine += `[${chordPos.chord}]`;
+      currentPos = chordPos.position;
+    }
+    
+    // Add remaining lyrics
+    chordLine += line.lyrics.substring(currentPos);
+    return `${chordLine}${lineRepeat}`;
+  }
+  
+  /**
+   * Render a metadata field as a "Name: value" header or {name: value} directive
+   */
+  static renderField(field: string, value: string, useDirective: boolean): string {
+    if (field.startsWith('custom:')) {
+      const key = field.slice('custom:'.length);
+      // {meta: name value} can't carry a name containing spaces
+      return /\s/.test(key) ? `${key}: ${value}` : `{meta: ${key} ${value}}`;
+    }
+    const name = FIELD_NAMES[field] || field;
+    return useDirective ? `{${name.toLowerCase()}: ${value}}` : `${name}: ${value}`;
+  }
+  
+  private static sectionSignature(section: SongSection): string {
+    return JSON.stringify([section.type, section.name, section.repeat, section.reference]);
+  }
+  
+  private static getMetadataFields(song: Song): string[] {
+    const custom = Object.keys(song.metadata.custom || {}).map(key => `custom:${key}`);
+    return [...Object.keys(FIELD_NAMES), ...custom];
+  }
+  
+  private static getFieldValue(song: Song, field: string): string | undefined {
+    if (field.startsWith('custom:')) {
+      return song.metadata.custom?.[field.slice('custom:'.length)];
+    }
+    switch (field) {
+      case 'title': return song.title;
+      case 'artist': return song.artist;
+      case 'originalKey': return ChordTransposer.formatKey(song.originalKey);
+      case 'capoPosition': return song.capoPosition ? String(song.capoPosition) : undefined;
+      case 'tempo': return song.tempo !== undefined ? String(song.tempo) : undefined;
+      case 'notes': return song.metadata.notes;
+      case 'scriptureReference': return song.metadata.scriptureReference;
+      case 'book': return song.metadata.book;
+      case 'timeSignature': return song.timeSignature;
+      case 'flow': return song.flow?.join(' ');
+      case 'ccli': return song.metadata.ccli;
+      case 'copyright': return song.metadata.copyright;
+      default: return undefined;
+    }
+  }
+  
+  /**
+   * Write a song back through its source document, rewriting only the lines
+   * whose parsed value was edited. New lines are placed after the previous
+   * line of their section and new sections are appended to the end.
+   */
+  private static patchSource(song: Song): string {
+    const document = song.source!;
+    const sectionsByLine = new Map<number, SongSection>();
+    const linesByLine = new Map<number, ChordLyricLine>();
+    const insertAfter = new Map<number, ChordLyricLine[]>();
+    const insertBefore = new Map<number, ChordLyricLine[]>();
+    const newSections: SongSection[] = [];
+    
+    for (const section of song.sections) {
+      let anchor = section.sourceLine;
+      let pending: ChordLyricLine[] = [];
+      if (anchor !== undefined) {
+        sectionsByLine.set(anchor, section);
+      }
       
       for (const line of section.content) {
-        if (line.chords.length === 0) {
-          output += `${line.lyrics}\n`;
+        if (line.sourceLine !== undefined) {
+          linesByLine.set(line.sourceLine, line);
+          if (anchor === undefined && pending.length > 0) {
+            insertBefore.set(line.sourceLine, pending);
+            pending = [];
+          }
+          anchor = line.sourceLine;
+        } else if (anchor !== undefined) {
+          insertAfter.set(anchor, [...(insertAfter.get(anchor) || []), line]);
         } else {
-          let chordLine = '';
-          let currentPos = 0;
-          
-          // Sort chords by position
-          const sortedChords = [...line.chords].sort((a, b) => a.position - b.position);
-          
-          for (const chordPos of sortedChords) {
-            // Add lyrics up to this chord position
-            chordLine += line.lyrics.substring(currentPos, chordPos.position);
-            // Add the chord
-            chordLine += `[${chordPos.chord}]`;
-            currentPos = chordPos.position;
+          pending.push(line);
+        }
+      }
+      
+      if (anchor === undefined) {
+        newSections.push(section);
+      }
+    }
+    
+    // Metadata fields edited since the file was parsed
+    const fields = [...new Set([...Object.keys(document.fields), ...this.getMetadataFields(song)])];
+    const changedFields = fields.filter(field => this.getFieldValue(song, field) !== document.fields[field]);
+    const fieldLines = new Set(document.lines.filter(line => line.role === 'metadata').map(line => line.field));
+    const useDirectives = document.lines.some(line => line.role === 'metadata' && line.text.trim().startsWith('{'));
+    const addedFields = changedFields
+      .filter(field => !fieldLines.has(field) && this.getFieldValue(song, field))
+      .map(field => this.renderField(field, this.getFieldValue(song, field)!, useDirectives));
+    const lastMetadataLine = document.lines.map(line => line.role).lastIndexOf('metadata');
+    
+    const output: string[] = lastMetadataLine === -1 ? addedFields : [];
+    
+    document.lines.forEach((line, index) => {
+      switch (line.role) {
+        case 'metadata': {
+          if (!changedFields.includes(line.field!)) {
+            output.push(line.text);
+            break;
+          }
+          const value = this.getFieldValue(song, line.field!);
+          if (value) {
+            output.push(ChordProSource.replaceValue(line.text, value));
           }
-          
-          // Add remaining lyrics
-          chordLine += line.lyrics.substring(currentPos);
-          output += `${chordLine}\n`;
+          break;
         }
+        case 'section-start': {
+          const section = sectionsByLine.get(index);
+          if (!section) break;
+          output.push(this.sectionSignature(section) === line.value
+            ? line.text
+            : this.rewriteSectionStart(line.text, section));
+          break;
+        }
+        case 'section-end': {
+          const section = sectionsByLine.get(line.owner!);
+          if (!section) break;
+          const [originalType] = JSON.parse(document.lines[line.owner!].value || '[]');
+          output.push(section.type === originalType ? line.text : `{end_of_${section.type}}`);
+          break;
+        }
+        case 'section-repeat': {
+          // Dropped when the repeat count changed; the header carries it instead
+          const section = sectionsByLine.get(line.owner!);
+          if (section && String(section.repeat) === line.value) {
+            output.push(line.text);
+          }
+          break;
+        }
+        case 'content': {
+          const chordLyricLine = linesByLine.get(index);
+          output.push(...(insertBefore.get(index) || []).map(l => this.renderLine(l)));
+          if (!chordLyricLine) break;
+          const rendered = this.renderLine(chordLyricLine);
+          output.push(rendered === line.value ? line.text : rendered);
+          break;
+        }
+        default:
+          output.push(line.text);
       }
       
-      output += '\n';
+      output.push(...(insertAfter.get(index) || []).map(l => this.renderLine(l)));
+      if (index === lastMetadataLine) {
+        output.push(...addedFields);
+      }
+    });
+    
+    for (const section of newSections) {
+      // Keep a blank line between the end of the file and the new section
+      if (output.length > 0 && output[output.length - 1].trim() !== '') {
+        output.push('');
+      }
+      output.push(...this.renderSection(section), '');
     }
     
-    return output;
+    return ChordProSource.toText(output, document.lineEnding);
+  }
+  
+  /**
+   * Re-render an edited section start in the same syntax as the original line
+   */
+  private static rewriteSectionStart(text: string, section: SongSection): string {
+    const trimmed = text.trim();
+    const indent = text.slice(0, text.length - text.trimStart().length);
+    const environment = this.parseEnvironmentDirective(trimmed);
+    
+    if (environment) {
+      // Keep short forms such as {soc} unless the section type changed
+      const directive = environment.type === section.type
+        ? trimmed.match(/^\{\s*([A-Za-z_]+)/)![1]
+        : `start_of_${section.type}`;
+      const repeatMarker = section.repeat ? ` x${section.repeat}` : '';
+      return `${indent}{${directive}: ${section.name || section.type}${repeatMarker}}`;
+    }
+    
+    const repeatMarker = section.repeat ? ` x${section.repeat}` : '';
+    const label = `${section.name || section.type}${repeatMarker}`;
+    
+    if (trimmed.startsWith('{')) {
+      // SongSelect style {comment: Verse 1} labels stay comments
+      const comment = trimmed.match(/^\{\s*([A-Za-z_]+)\s*:/);
+      if (comment && COMMENT_DIRECTIVES[comment[1].toLowerCase()]) {
+        return `${indent}{${comment[1]}: ${label}}`;
+      }
+      return indent + (this.renderSectionStart(section) ?? trimmed);
+    }
+    // Bare "Verse 1" labels stay without a colon
+    return trimmed.endsWith(':') ? `${indent}${label}:` : `${indent}${label}`;
   }
 }
@@ -0,0 +1,162 @@
+import type { Song } from '../types';
+import { ChordProParser } from './chordProParser';
+import type { ChordProParseOptions, ChordProParseResult } from './chordProParser';
+
+export interface ChordSheetOptions {
+  title?: string;
+  artist?: string;
+}
+
+// A single chord name such as "G", "F#m7", "Bbmaj7", "Dsus4" or "C/E"
+const CHORD_PATTERN = /^[A-G][#b]?(?:maj|min|m|dim|aug|sus|add|M|[+°øΔ#b()]|\d)*(?:\/[A-G][#b]?)?$/;
+
+// Tokens that may sit on a chord line without being chords themselves
+const CHORD_LINE_FILLERS = /^(?:\||\/|-|%|N\.?C\.?|\(?[xX×]\d+\)?)$/;
+
+// One string of a guitar/bass tab, e.g. "e|---0---2---|"
+const TAB_LINE_PATTERN = /^[A-Ga-g][#b]?\s*\|[-\d|hpbrx/\\~ ]*$/;
+
+// Converts plain text "chords over lyrics" charts (the Ultimate Guitar style,
+// with a line of chord names above each lyric line) into ChordPro
+export class ChordSheetConverter {
+  /**
+   * Check whether a file is a chords-over-lyrics chart rather than ChordPro:
+   * it has at least one chord-only line and no inline [C] chords
+   */
+  static isChordSheet(content: string): boolean {
+    const lines = content.split(/\r?\n/);
+    const hasInlineChords = lines.some(line =>
+      (line.match(/\[([^\]]+)\]/g) || []).some(match => this.isChordToken(match.slice(1, -1)))
+    );
+    return !hasInlineChords && lines.some(line => this.isChordLine(line));
+  }
+
+  /**
+   * Parse a chords-over-lyrics chart into a Song, going through ChordPro so the
+   * result has the same structure (and exports) as a .chordpro file
+   */
+  static parse(content: string, id: string, options: ChordSheetOptions & ChordProParseOptions = {}): ChordProParseResult {
+    return ChordProParser.parse(this.toChordPro(content, options), id, options);
+  }
+
+  static parseChordSheet(content: string, id: string, options: ChordSheetOptions = {}): Song {
+    return this.parse(content, id, options).song;
+  }
+
+  /**
+   * Convert a chords-over-lyrics chart to ChordPro text. Each chord is placed
+   * at the character column it sits above in the following lyric line.
+   */
+  static toChordPro(content: string, options: ChordSheetOptions = {}): string {
+    const lines = content.replace(/\t/g, '    ').split(/\r?\n/);
+    const output: string[] = [];
+    let inTab = false;
+
+    if (options.title) output.push(`{title: ${options.title}}`);
+    if (options.artist) output.push(`{artist: ${options.artist}}`);
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].replace(/\s+$/, '');
+      const isTab = TAB_LINE_PATTERN.test(line.trim());
+
+      // Runs of tab staff lines become a {start_of_tab} block
+      if (isTab !== inTab) {
+        // A "[Solo]" label directly above the tab names the block
+        const label = isTab ? output[output.length - 1]?.match(/^\{c: (.*)\}$/) : null;
+        if (label) {
+          output[output.length - 1] = `{start_of_tab: ${label[1]}}`;
+        } else {
+          output.push(isTab ? '{start_of_tab}' : '{end_of_tab}');
+        }
+        inTab = isTab;
+      }
+      if (isTab) {
+        output.push(line);
+        continue;
+      }
+
+      const label = this.parseSectionLabel(line);
+      if (label) {
+        output.push(ChordProParser.isSectionHeader(`${label}:`) ? `${label}:` : `{c: ${label}}`);
+        continue;
+      }
+
+      if (this.isChordLine(line)) {
+        const next = lines[i + 1]?.replace(/\s+$/, '') ?? '';
+        if (this.isLyricLine(next)) {
+          output.push(this.mergeChordLine(line, next));
+          i++;
+        } else {
+          output.push(this.mergeChordLine(line, ''));
+        }
+        continue;
+      }
+
+      output.push(line);
+    }
+
+    if (inTab) output.push('{end_of_tab}');
+    return output.join('\n');
+  }
+
+  /**
+   * Merge a chord line into the lyric line below it as inline [C] chords
+   */
+  static mergeChordLine(chordLine: string, lyricLine: string): string {
+    const chords: { chord: string; column: number }[] = [];
+    let repeat = '';
+
+    for (const match of chordLine.matchAll(/\S+/g)) {
+      const token = match[0];
+      if (/^\(?[xX×]\d+\)?$/.test(token)) {
+        repeat = ` ${token}`;
+      } else if (this.isChordToken(token) || /^(?:%|N\.?C\.?)$/.test(token)) {
+        chords.push({ chord: token, column: match.index ?? 0 });
+      }
+    }
+
+    // Insert from the right so earlier columns stay valid
+    let merged = lyricLine;
+    for (const { chord, column } of [...chords].reverse()) {
+      if (merged.length < column) {
+        merged = merged.padEnd(column);
+      }
+      merged = `${merged.slice(0, column)}[${chord}]${merged.slice(column)}`;
+    }
+
+    return `${merged.replace(/\s+$/, '')}${repeat}`;
+  }
+
+  static isChordToken(token: string): boolean {
+    return CHORD_PATTERN.test(token);
+  }
+
+  /**
+   * A chord line contains only chord names (plus bar lines, "N.C.", "%" and
+   * repeat markers) and at least one chord
+   */
+  static isChordLine(line: string): boolean {
+    const tokens = line.trim().split(/\s+/).filter(Boolean);
+    return tokens.some(token => this.isChordToken(token)) &&
+           tokens.every(token => this.isChordToken(token) || CHORD_LINE_FILLERS.test(token));
+  }
+
+  /**
+   * Parse "[Verse 1]" style section labels, which would otherwise be read as
+   * chords once the chart is ChordPro
+   */
+  static parseSectionLabel(line: string): string | null {
+    const match = line.trim().match(/^\[([^\]]+)\]$/);
+    if (!match || this.isChordToken(match[1].trim())) return null;
+    return match[1].trim();
+  }
+
+  private static isLyricLine(line: string): boolean {
+    const trimmed = line.trim();
+    return trimmed.length > 0 &&
+           !this.isChordLine(line) &&
+           !this.parseSectionLabel(line) &&
+           !TAB_LINE_PATTERN.test(trimmed) &&
+           !(trimmed.startsWith('{') && trimmed.endsWith('}'));
+  }
+}
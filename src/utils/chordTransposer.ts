@@ -1,4 +1,6 @@
-import type { ChromaticNote } from '../types';
+import type { ChromaticNote, Key, KeyMode, KeyTonic } from '../types';
+import { ChordGrammar } from './chordGrammar';
+import type { ParsedChord } from './chordGrammar';
 
 // Chord transposition engine for real-time key changes
 export class ChordTransposer {
@@ -6,26 +8,81 @@ export class ChordTransposer {
     'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'
   ];
 
-  // Note: CHORD_PATTERNS reserved for future chord quality validation
+  private static readonly FLAT_SCALE = [
+    'C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'
+  ];
+
+  // C major/A minor: the usual spellings of borrowed and secondary chords
+  private static readonly NATURAL_SCALE = [
+    'C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'
+  ];
+
+  // Conventional tonic of each major and minor key by chromatic index, using
+  // whichever enharmonic spelling has fewer accidentals (flats on a tie, as
+  // the loop library names its keys)
+  private static readonly MAJOR_KEY_TONICS: KeyTonic[] = [
+    'C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'
+  ];
+
+  private static readonly MINOR_KEY_TONICS: KeyTonic[] = [
+    'C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'
+  ];
+
+  // Every tonic a key label may be written with
+  private static readonly KEY_TONICS: KeyTonic[] = [
+    'C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B', 'Cb'
+  ];
+
+  // Scale degree of each chromatic interval above the key's tonic
+  private static readonly NASHVILLE_DEGREES = [
+    '1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'
+  ];
+
+  private static readonly ROMAN_DEGREES = [
+    'I', 'bII', 'II', 'bIII', 'III', 'IV', '#IV', 'V', 'bVI', 'VI', 'bVII', 'VII'
+  ];
+
+  // Key assumed for songs that neither declare one nor have chords to go on
+  static readonly DEFAULT_KEY: Key = { tonic: 'C', mode: 'major' };
+
+  // Major keys (by chromatic index) whose signatures use flats. Db/C# and
+  // Gb/F# go by how the key is written.
+  private static readonly FLAT_MAJOR_KEYS = [5, 10, 3, 8];
 
   /**
    * Transpose a chord from one key to another
    */
-  static transposeChord(chord: string, fromKey: string, toKey: string, capoPosition: number = 0): string {
+  static transposeChord(chord: string, fromKey: Key, toKey: Key, capoPosition: number = 0): string {
     if (!chord || chord.trim() === '') return chord;
 
     // Calculate semitone difference
     const semitones = this.calculateSemitones(fromKey, toKey) + capoPosition;
+    // Chords in the original key are shown as written
+    if (semitones % 12 === 0) return chord;
     
-    return this.transposeChordBySemitones(chord, semitones);
+    return this.transposeChordBySemitones(chord, semitones, this.transposeKey(toKey, capoPosition));
   }
 
   /**
-   * Transpose a chord by a specific number of semitones
+   * Transpose a chord by a specific number of semitones. When the target key
+   * is given, roots and bass notes are spelled to match its key signature;
+   * otherwise the chord's own accidental is kept. Symbols the chord grammar
+   * can't read (N.C., x2, typos) are returned unchanged.
    */
-  static transposeChordBySemitones(chord: string, semitones: number): string {
+  static transposeChordBySemitones(chord: string, semitones: number, targetKey?: Key): string {
     if (!chord || chord.trim() === '') return chord;
 
+    // Polychords ("D|C") transpose each chord
+    if (chord.includes('|')) {
+      return chord.split('|').map(part => this.transposeChordBySemitones(part, semitones, targetKey)).join('|');
+    }
+
+    // Keep the padding of bar lines such as "C    | Am"
+    const padded = chord.match(/^(\s+)?(.*?)(\s+)?$/)!;
+    if (padded[1] || padded[3]) {
+      return (padded[1] ?? '') + this.transposeChordBySemitones(padded[2], semitones, targetKey) + (padded[3] ?? '');
+    }
+
     // Parse the chord to extract root note and quality
     const chordParts = this.parseChord(chord);
     if (!chordParts) return chord;
@@ -33,21 +90,69 @@ export class ChordTransposer {
     const { root, quality, bass } = chordParts;
 
     // Transpose the root note
-    const newRoot = this.transposeNote(root, semitones);
+    const newRoot = this.transposeNote(root, semitones, targetKey);
     
     // Transpose bass note if present
-    const newBass = bass ? this.transposeNote(bass, semitones) : null;
+    const newBass = bass ? this.transposeNote(bass, semitones, targetKey) : null;
 
     // Reconstruct the chord
     return this.reconstructChord(newRoot, quality, newBass || undefined);
   }
 
   /**
-   * Calculate semitone difference between two keys
+   * Write a chord as its scale degree in a key, in the Nashville Number
+   * System ("D/F#" in G is "5/7", "Em" is "6m") or as a Roman numeral
+   * ("V/7", "vi"). Degrees count from the key's tonic, so minor keys start
+   * at 1m/i. Chords that aren't notes (N.C., %) are returned unchanged.
    */
-  private static calculateSemitones(fromKey: string, toKey: string): number {
-    const fromIndex = this.getNoteIndex(this.parseNote(fromKey));
-    const toIndex = this.getNoteIndex(this.parseNote(toKey));
+  static toScaleDegree(chord: string, key: Key, system: 'nashville' | 'roman'): string {
+    if (chord.includes('|')) {
+      return chord.split('|').map(part => this.toScaleDegree(part, key, system)).join('|');
+    }
+
+    const chordParts = this.parseChord(chord);
+    if (!chordParts) return chord;
+
+    const tonicIndex = this.getNoteIndex(key.tonic);
+    const interval = (note: string) => (this.getNoteIndex(this.parseNote(note)) - tonicIndex + 12) % 12;
+    const bass = chordParts.bass
+      ? `/${this.NASHVILLE_DEGREES[interval(chordParts.bass)]}`
+      : '';
+
+    if (system === 'nashville') {
+      // A leading extension is raised so "5⁷" doesn't read as fifty-seven
+      const quality = chordParts.quality
+        .replace(/^dim/, '°')
+        .replace(/^\d+/, digits => digits.replace(/\d/g, d => '⁰¹²³⁴⁵⁶⁷⁸⁹'[Number(d)]));
+      return `${this.NASHVILLE_DEGREES[interval(chordParts.root)]}${quality}${bass}`;
+    }
+
+    // Roman numerals show minor and diminished chords in lower case, so the
+    // quality the grammar read is replaced by the numeral's case and a mark
+    const numeral = this.ROMAN_DEGREES[interval(chordParts.root)];
+    const { quality } = chordParts;
+    switch (chordParts.parsed.quality) {
+      case 'diminished':
+        return `${numeral.toLowerCase()}°${quality.replace(/^(dim|°|o(?=\d))/, '')}${bass}`;
+      case 'half-diminished': // ø stays; m7b5 loses its m like other minors
+      case 'minor':
+        return `${numeral.toLowerCase()}${quality.replace(/^(min|mi|m|-)/, '')}${bass}`;
+      case 'augmented':
+        return `${numeral}+${quality.replace(/^(aug|\+)/, '')}${bass}`;
+      default:
+        return `${numeral}${quality}${bass}`;
+    }
+  }
+
+  /**
+   * Calculate semitone difference between two keys. A major and a minor key
+   * are compared through their relative majors, so Am to C is no change.
+   */
+  private static calculateSemitones(fromKey: Key, toKey: Key): number {
+    const fromTonic = this.getNoteIndex(fromKey.tonic);
+    const toTonic = this.getNoteIndex(toKey.tonic);
+    const fromIndex = fromKey.mode === 'minor' && toKey.mode === 'major' ? fromTonic + 3 : fromTonic;
+    const toIndex = toKey.mode === 'minor' && fromKey.mode === 'major' ? toTonic + 3 : toTonic;
     
     let semitones = toIndex - fromIndex;
     
@@ -59,27 +164,18 @@ export class ChordTransposer {
   }
 
   /**
-   * Parse a chord into its components
+   * Parse a chord with the chord grammar, so transposition reads chords the
+   * same way validation and house styles do. The quality is kept as written
+   * ("Δ7", "(add9)") for the display to restyle; the root and bass come from
+   * the grammar, with ♯ and ♭ read as # and b.
    */
-  private static parseChord(chord: string): { root: string; quality: string; bass?: string } | null {
-    // Handle slash chords (e.g., "C/E", "Am/G")
-    const slashIndex = chord.indexOf('/');
-    let bass: string | undefined;
-    let mainChord = chord;
-
-    if (slashIndex !== -1) {
-      bass = chord.substring(slashIndex + 1);
-      mainChord = chord.substring(0, slashIndex);
-    }
+  private static parseChord(chord: string): { root: string; quality: string; bass?: string; parsed: ParsedChord } | null {
+    const parsed = ChordGrammar.parse(chord);
+    if (!parsed || parsed.lower) return null;
 
-    // Extract root note (including sharp/flat)
-    const rootMatch = mainChord.match(/^([A-G][#b]?)/);
-    if (!rootMatch) return null;
-
-    const root = rootMatch[1];
-    const quality = mainChord.substring(root.length);
-
-    return { root, quality, bass };
+    const written = chord.trim();
+    const quality = written.slice(parsed.root.length, parsed.bass ? written.lastIndexOf('/') : undefined);
+    return { root: parsed.root, quality, bass: parsed.bass, parsed };
   }
 
   /**
@@ -93,7 +189,7 @@ export class ChordTransposer {
   /**
    * Get the chromatic index of a note
    */
-  private static getNoteIndex(note: string): number {
+  static getNoteIndex(note: string): number {
     // Handle enharmonic equivalents
     const noteMap: { [key: string]: number } = {
       'C': 0, 'B#': 0,
@@ -116,19 +212,134 @@ export class ChordTransposer {
   /**
    * Transpose a single note by semitones
    */
-  private static transposeNote(note: string, semitones: number): string {
+  private static transposeNote(note: string, semitones: number, targetKey?: Key): string {
     const currentIndex = this.getNoteIndex(note);
     let newIndex = (currentIndex + semitones) % 12;
     
     if (newIndex < 0) newIndex += 12;
 
     // Prefer sharps for sharp keys, flats for flat keys
+    if (targetKey) {
+      return this.spellNote(newIndex, targetKey);
+    }
     const newNote = this.CHROMATIC_SCALE[newIndex];
     
     // Handle enharmonic spelling preferences
     return this.getPreferredSpelling(newNote, note);
   }
 
+  /**
+   * Spell a note (by chromatic index) the way it is written in a key:
+   * sharps in sharp keys, flats in flat keys. Minor keys follow their
+   * relative major.
+   */
+  static spellNote(index: number, key: Key): string {
+    const signature = this.getKeySignature(key);
+    const scale = signature === 'sharp' ? this.CHROMATIC_SCALE
+      : signature === 'flat' ? this.FLAT_SCALE
+      : this.NATURAL_SCALE;
+    return scale[((index % 12) + 12) % 12];
+  }
+
+  /**
+   * Whether a key's signature has sharps, flats, or neither (C major/A minor)
+   */
+  static getKeySignature(key: Key): 'sharp' | 'flat' | 'natural' {
+    const majorIndex = this.getNoteIndex(this.getRelativeMajor(key).tonic);
+    if (majorIndex === 0) return 'natural';
+    if (this.FLAT_MAJOR_KEYS.includes(majorIndex)) return 'flat';
+    // Db/C# major and Gb/F# major (and their relative minors) go by spelling
+    if (majorIndex === 1 || majorIndex === 6) {
+      if (key.tonic.endsWith('b')) return 'flat';
+      if (key.tonic.endsWith('#')) return 'sharp';
+      return key.mode === 'minor' ? 'sharp' : 'flat';
+    }
+    return 'sharp';
+  }
+
+  /**
+   * Transpose a key, giving the result its conventional spelling (A# becomes
+   * Bb, Dbm becomes C#m). Unchanged keys are returned as written.
+   */
+  static transposeKey(key: Key, semitones: number): Key {
+    if (semitones % 12 === 0) return key;
+    return this.keyAt((((this.getNoteIndex(key.tonic) + semitones) % 12) + 12) % 12, key.mode);
+  }
+
+  /**
+   * Give a key its conventional spelling. F#/Gb and D#m/Ebm have the same
+   * number of accidentals either way and are kept as written.
+   */
+  static spellKey(key: Key): Key {
+    const index = this.getNoteIndex(key.tonic);
+    if ((key.mode === 'major' && index === 6) || (key.mode === 'minor' && index === 3)) return key;
+    return this.keyAt(index, key.mode);
+  }
+
+  /**
+   * Parse a key label such as "G", "Bb", "F#m" or "E minor", or null when it
+   * isn't one. Unusual spellings such as "Fb" are respelled.
+   */
+  static parseKey(label: string): Key | null {
+    const match = label.trim().match(/^([A-G][#b]?)\s*(m(?!aj)|[Mm]in(?:or)?)?(?![A-Za-z])/);
+    if (!match) return null;
+    const mode: KeyMode = match[2] ? 'minor' : 'major';
+    const tonic = this.KEY_TONICS.find(candidate => candidate === match[1]);
+    return tonic ? { tonic, mode } : this.keyAt(this.getNoteIndex(match[1]), mode);
+  }
+
+  /**
+   * Read a key from saved data, which older versions stored as a label
+   * ("E minor", "Bbm") rather than a tonic and mode. Null when it isn't one.
+   */
+  static normaliseKey(value: unknown): Key | null {
+    if (typeof value === 'string') return this.parseKey(value);
+    if (value && typeof value === 'object' && 'tonic' in value && typeof value.tonic === 'string') {
+      const mode = 'mode' in value && value.mode === 'minor' ? 'm' : '';
+      return this.parseKey(`${value.tonic}${mode}`);
+    }
+    return null;
+  }
+
+  /**
+   * Write a key as a label: "G", "Bb", "F#m"
+   */
+  static formatKey(key: Key): string {
+    return key.mode === 'minor' ? `${key.tonic}m` : key.tonic;
+  }
+
+  /**
+   * A key chosen for a song (a setlist or saved key), in the song's own mode.
+   * Chords keep their qualities when transposed, so a minor song can't be
+   * played in a major key: "C" for a song in Am means C minor, and "Am" for
+   * a song in C means A major.
+   */
+  static inSongMode(key: Key, songKey: Key): Key {
+    return key.mode === songKey.mode ? key : this.spellKey({ tonic: key.tonic, mode: songKey.mode });
+  }
+
+  /**
+   * The major key sharing a minor key's signature (Am → C); major keys are
+   * returned as they are
+   */
+  static getRelativeMajor(key: Key): Key {
+    if (key.mode === 'major') return key;
+    return this.keyAt((this.getNoteIndex(key.tonic) + 3) % 12, 'major');
+  }
+
+  /**
+   * Whether two keys are the same pitch and mode, however they are spelled
+   * (A# and Bb are the same key; A and Am are not)
+   */
+  static isSameKey(a: Key, b: Key): boolean {
+    return this.getNoteIndex(a.tonic) === this.getNoteIndex(b.tonic) && a.mode === b.mode;
+  }
+
+  // The conventionally spelled key of a mode on a chromatic index
+  private static keyAt(index: number, mode: KeyMode): Key {
+    return { tonic: (mode === 'minor' ? this.MINOR_KEY_TONICS : this.MAJOR_KEY_TONICS)[index], mode };
+  }
+
   /**
    * Get preferred enharmonic spelling based on original note
    */
@@ -162,42 +373,20 @@ export class ChordTransposer {
   /**
    * Get all possible keys for transposition
    */
-  static getAllKeys(): string[] {
+  static getAllKeys(): Key[] {
+    const tonics = this.KEY_TONICS.filter(tonic => tonic !== 'Cb');
     return [
-      'C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 
-      'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B',
-      'Cm', 'C#m', 'Dm', 'D#m', 'Ebm', 'Em', 'Fm', 
-      'F#m', 'Gm', 'G#m', 'Am', 'A#m', 'Bbm', 'Bm'
+      ...tonics.map(tonic => ({ tonic, mode: 'major' as const })),
+      ...tonics.filter(tonic => !['Db', 'Gb', 'Ab'].includes(tonic)).map(tonic => ({ tonic, mode: 'minor' as const }))
     ];
   }
 
   /**
-   * Calculate the effective key considering capo position
+   * Get the key a capo player fingers: concert pitch down by the capo. A
+   * down-tuned instrument (negative pitch shift) fingers shapes that much
+   * higher, so Eb standard plays an Eb song with E shapes.
    */
-  static getEffectiveKey(originalKey: string, capoPosition: number): string {
-    return this.transposeChordBySemitones(originalKey, capoPosition);
-  }
-
-  /**
-   * Get suggested capo positions for easier chord shapes
-   */
-  static getSuggestedCapoPositions(fromKey: string, toKey: string): number[] {
-    const semitones = this.calculateSemitones(fromKey, toKey);
-    const suggestions: number[] = [];
-    
-    // Common capo positions that result in easy chord shapes
-    const easyKeys = ['C', 'G', 'D', 'A', 'E', 'Am', 'Em', 'Bm', 'F#m', 'C#m'];
-    
-    for (let capo = 0; capo <= 12; capo++) {
-      const effectiveKey = this.transposeChordBySemitones(fromKey, -capo);
-      if (easyKeys.includes(effectiveKey)) {
-        const targetCapo = (semitones + capo) % 12;
-        if (targetCapo >= 0 && targetCapo <= 7) { // Practical capo range
-          suggestions.push(targetCapo);
-        }
-      }
-    }
-    
-    return [...new Set(suggestions)].sort((a, b) => a - b);
+  static getShapeKey(concertKey: Key, capoPosition: number, pitchShift: number = 0): Key {
+    return this.transposeKey(concertKey, -(capoPosition + pitchShift));
   }
 }
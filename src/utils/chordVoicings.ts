@@ -0,0 +1,265 @@
+import type { ChordVoicing, ChordDefinition } from '../types';
+import { ChordGrammar } from './chordGrammar';
+import type { ParsedChord } from './chordGrammar';
+import { ChordTransposer } from './chordTransposer';
+import { Instruments } from './instruments';
+import type { InstrumentProfile } from './instruments';
+
+// Frets from low E to high e; x is not played
+const shape = (frets: string, baseFret: number = 1): ChordVoicing => ({
+  frets: frets.split('').map(fret => fret === 'x' ? null : parseInt(fret, 10)),
+  baseFret
+});
+
+// Open-position guitar voicings, keyed by the chord in the "standard" style.
+// Worship-chart favourites (G with the top two strings on 3, C2, D/F#) are
+// preferred over textbook shapes.
+const OPEN_VOICINGS: Record<string, ChordVoicing> = {
+  'A': shape('x02220'),
+  'Am': shape('x02210'),
+  'A7': shape('x02020'),
+  'Am7': shape('x02010'),
+  'Amaj7': shape('x02120'),
+  'A6': shape('x02222'),
+  'A2': shape('x02200'),
+  'Asus2': shape('x02200'),
+  'Asus4': shape('x02230'),
+  'A7sus4': shape('x02030'),
+  'A5': shape('x022xx'),
+  'A/C#': shape('x42220'),
+  'A/E': shape('002220'),
+  'Am/G': shape('302210'),
+  'B7': shape('x21202'),
+  'C': shape('x32010'),
+  'C7': shape('x32310'),
+  'Cmaj7': shape('x32000'),
+  'C2': shape('x32033'),
+  'Cadd9': shape('x32033'),
+  'Csus2': shape('x30013'),
+  'C6': shape('x32210'),
+  'C/E': shape('032010'),
+  'C/G': shape('332010'),
+  'C2/E': shape('032033'),
+  'D': shape('xx0232'),
+  'Dm': shape('xx0231'),
+  'D7': shape('xx0212'),
+  'Dm7': shape('xx0211'),
+  'Dmaj7': shape('xx0222'),
+  'D6': shape('xx0202'),
+  'D2': shape('xx0230'),
+  'Dsus2': shape('xx0230'),
+  'Dsus4': shape('xx0233'),
+  'Dadd4': shape('xx0033'),
+  'D5': shape('xx023x'),
+  'D/F#': shape('2x0232'),
+  'D/A': shape('x00232'),
+  'Dsus4/F#': shape('2x0233'),
+  'E': shape('022100'),
+  'Em': shape('022000'),
+  'E7': shape('020100'),
+  'Em7': shape('022030'),
+  'Emaj7': shape('021100'),
+  'E6': shape('022120'),
+  'Esus4': shape('022200'),
+  'E7sus4': shape('022200'),
+  'Eadd9': shape('024100'),
+  'E5': shape('022xxx'),
+  'E/G#': shape('422100'),
+  'Em/D': shape('xx0000'),
+  'F': shape('133211'),
+  'Fmaj7': shape('xx3210'),
+  'G': shape('320033'),
+  'G7': shape('320001'),
+  'Gmaj7': shape('320002'),
+  'G6': shape('320000'),
+  'G2': shape('300033'),
+  'Gadd9': shape('300033'),
+  'Gsus4': shape('3x0013'),
+  'G5': shape('355xxx'),
+  'G/B': shape('x20033'),
+  'G/D': shape('xx0033')
+};
+
+// Movable barre shapes by chord suffix, rooted on the low E or A string. Frets
+// are relative to the root fret, which becomes the base fret.
+type BarreShape = { string: 'E' | 'A'; frets: (number | null)[] };
+const BARRE_VOICINGS: Record<string, BarreShape[]> = {
+  '': [{ string: 'E', frets: [1, 3, 3, 2, 1, 1] }, { string: 'A', frets: [null, 1, 3, 3, 3, 1] }],
+  'm': [{ string: 'E', frets: [1, 3, 3, 1, 1, 1] }, { string: 'A', frets: [null, 1, 3, 3, 2, 1] }],
+  '7': [{ string: 'E', frets: [1, 3, 1, 2, 1, 1] }, { string: 'A', frets: [null, 1, 3, 1, 3, 1] }],
+  'm7': [{ string: 'E', frets: [1, 3, 1, 1, 1, 1] }, { string: 'A', frets: [null, 1, 3, 1, 2, 1] }],
+  'maj7': [{ string: 'E', frets: [1, null, 2, 2, 1, null] }, { string: 'A', frets: [null, 1, 3, 2, 3, 1] }],
+  '6': [{ string: 'A', frets: [null, 1, 3, 3, 3, 3] }],
+  '2': [{ string: 'A', frets: [null, 1, 3, 3, 1, 1] }],
+  'sus2': [{ string: 'A', frets: [null, 1, 3, 3, 1, 1] }],
+  'sus4': [{ string: 'E', frets: [1, 3, 3, 3, 1, 1] }, { string: 'A', frets: [null, 1, 3, 3, 4, 1] }],
+  '7sus4': [{ string: 'E', frets: [1, 3, 1, 3, 1, 1] }, { string: 'A', frets: [null, 1, 3, 1, 4, 1] }],
+  '5': [{ string: 'E', frets: [1, 3, 3, null, null, null] }, { string: 'A', frets: [null, 1, 3, 3, null, null] }],
+  'dim': [{ string: 'A', frets: [null, 1, 2, 3, 2, null] }],
+  'm7b5': [{ string: 'A', frets: [null, 1, 2, 1, 2, null] }],
+  'aug': [{ string: 'A', frets: [null, 1, 4, 3, 3, null] }]
+};
+
+// Note index of the open string each barre shape is rooted on
+const STRING_ROOTS = { E: 4, A: 9 };
+
+// Lowest fret a searched voicing may start from, and how many frets a hand
+// can cover from there
+const HIGHEST_POSITION = 11;
+const HAND_SPAN = 4;
+
+// A diagram for one chord on one instrument
+export type ChordDiagramData =
+  | { type: 'fretted'; voicing: ChordVoicing }
+  | { type: 'keyboard'; keys: number[] }; // Semitones above the lowest C shown, bass first
+
+// Searched voicings by instrument and chord, since the search runs per render
+const searchCache = new Map<string, ChordVoicing | null>();
+
+// Looks up fingerings for chord symbols: definitions from the song first, then
+// the built-in guitar shapes, then a search of the instrument's fretboard
+export class ChordVoicings {
+  /**
+   * Find a fretted voicing for a chord symbol, or null for special tokens,
+   * keyboards and chords with no playable shape. Song definitions match the
+   * chord as written or in the standard style, and only apply when they have
+   * one fret per string of the instrument. Alternate tunings are searched.
+   */
+  static get(symbol: string, definitions: ChordDefinition[] = [], instrument: InstrumentProfile = Instruments.get('guitar')): ChordVoicing | null {
+    if (instrument.diagram !== 'fretted') return null;
+    const chord = ChordGrammar.parse(symbol);
+    const standard = chord ? ChordGrammar.format(chord, 'standard') : symbol;
+    const defined = definitions.find(d => d.frets.length === instrument.tuning.length &&
+      (d.name === symbol || d.name === standard || (chord !== null && ChordGrammar.normalise(d.name, 'standard') === standard)));
+    if (defined) return defined;
+    if (!chord || chord.lower) return null;
+
+    if (instrument.id === 'guitar' && Instruments.isStandardTuning(instrument)) {
+      // Slash chords without a shape of their own fall back to the upper chord
+      const open = OPEN_VOICINGS[standard] ??
+        OPEN_VOICINGS[ChordGrammar.format({ ...chord, bass: undefined }, 'standard')];
+      const shape = open ?? this.getBarreVoicing(chord);
+      if (shape) return shape;
+    }
+
+    const cacheKey = `${instrument.tuning.join(',')}:${standard}`;
+    if (!searchCache.has(cacheKey)) {
+      searchCache.set(cacheKey, this.findVoicing(chord, instrument));
+    }
+    return searchCache.get(cacheKey) ?? null;
+  }
+
+  /**
+   * The diagram for a chord on an instrument: a fretted voicing, the keys to
+   * press on a keyboard, or null when there is nothing to draw (bass, N.C.)
+   */
+  static getDiagram(symbol: string, instrument: InstrumentProfile, definitions: ChordDefinition[] = []): ChordDiagramData | null {
+    if (instrument.diagram === 'fretted') {
+      const voicing = this.get(symbol, definitions, instrument);
+      return voicing ? { type: 'fretted', voicing } : null;
+    }
+    if (instrument.diagram !== 'keyboard') return null;
+
+    // Bass note in the first octave, the chord in close position above it
+    const chord = ChordGrammar.parse(symbol);
+    if (!chord) return null;
+    const upper = chord.lower ? { ...chord, lower: undefined } : chord;
+    const root = ChordTransposer.getNoteIndex(upper.root);
+    const bass = ChordTransposer.getNoteIndex(ChordGrammar.getBassNote(symbol));
+    const keys = ChordGrammar.getTones(upper).map(tone => 12 + root + tone.semitones % 12);
+    return { type: 'keyboard', keys: [bass, ...new Set(keys.sort((a, b) => a - b))] };
+  }
+
+  // The shape closest to the nut wins; the root stays at fret 1 or higher so
+  // no shape needs open strings
+  private static getBarreVoicing(chord: ParsedChord): ChordVoicing | null {
+    const suffix = ChordGrammar.format({ ...chord, root: '', bass: undefined, lower: undefined }, 'standard');
+    const root = ChordTransposer.getNoteIndex(chord.root);
+    const voicings = (BARRE_VOICINGS[suffix] || []).map(barre => ({
+      frets: barre.frets,
+      baseFret: (root - STRING_ROOTS[barre.string] + 12) % 12 || 12
+    }));
+    return voicings.sort((a, b) => a.baseFret - b.baseFret)[0] ?? null;
+  }
+
+  /**
+   * Search the fretboard for the easiest shape that plays every required
+   * chord tone, trying each hand position from the nut up. Shapes low on the
+   * neck with few muted strings and a short stretch score best.
+   */
+  private static findVoicing(chord: ParsedChord, instrument: InstrumentProfile): ChordVoicing | null {
+    const { tuning } = instrument;
+    const root = ChordTransposer.getNoteIndex(chord.root);
+    const bass = chord.bass ? ChordTransposer.getNoteIndex(chord.bass) : root;
+    const tones = ChordGrammar.getTones(chord);
+    const allowed = new Set([bass, ...tones.map(tone => (root + tone.semitones) % 12)]);
+    const required = new Set([bass, ...tones.filter(tone => !tone.optional).map(tone => (root + tone.semitones) % 12)]);
+    if (required.size > tuning.length) return null;
+
+    const maxMuted = Math.max(0, tuning.length - 4);
+    let best: { frets: (number | null)[]; score: number } | null = null;
+
+    for (let position = 0; position <= HIGHEST_POSITION; position++) {
+      // Each string can be muted, open, or fretted within the hand's reach
+      const options = tuning.map(open => {
+        const frets: (number | null)[] = maxMuted > 0 ? [null] : [];
+        if (allowed.has(open % 12)) frets.push(0);
+        for (let fret = position + 1; fret <= position + HAND_SPAN; fret++) {
+          if (allowed.has((open + fret) % 12)) frets.push(fret);
+        }
+        return frets;
+      });
+
+      const shapes = options.reduce<(number | null)[][]>(
+        (partial, frets) => partial.flatMap(shape => frets.map(fret => [...shape, fret])),
+        [[]]
+      );
+      for (const frets of shapes) {
+        const score = this.scoreVoicing(frets, tuning, required, allowed, instrument.rootInBass ? bass : null, maxMuted);
+        if (score !== null && (!best || score < best.score)) best = { frets, score };
+      }
+    }
+
+    if (!best) return null;
+    const { frets } = best;
+    const fretted = frets.filter((fret): fret is number => fret !== null && fret > 0);
+    const highest = Math.max(0, ...fretted);
+    if (highest <= HAND_SPAN) return { frets, baseFret: 1 };
+
+    const baseFret = Math.min(...fretted);
+    return { frets: frets.map(fret => fret === null || fret === 0 ? fret : fret - baseFret + 1), baseFret };
+  }
+
+  // Lower is easier; null when the shape can't be played or misses a tone
+  private static scoreVoicing(
+    frets: (number | null)[], tuning: number[], required: Set<number>, allowed: Set<number>, bass: number | null, maxMuted: number
+  ): number | null {
+    const sounding = frets
+      .map((fret, string) => fret === null ? null : tuning[string] + fret)
+      .filter((note): note is number => note !== null);
+    const muted = frets.length - sounding.length;
+    if (muted > maxMuted || sounding.length < 3) return null;
+
+    // Muted strings only at the edges, so the strumming hand can avoid them
+    const first = frets.findIndex(fret => fret !== null);
+    const last = frets.length - 1 - [...frets].reverse().findIndex(fret => fret !== null);
+    if (frets.slice(first, last + 1).includes(null)) return null;
+
+    const notes = new Set(sounding.map(note => note % 12));
+    for (const tone of required) {
+      if (!notes.has(tone)) return null;
+    }
+    if (bass !== null && Math.min(...sounding) % 12 !== bass) return null;
+
+    // Four fingers, with the first finger barring the lowest fret if needed
+    const fretted = frets.filter((fret): fret is number => fret !== null && fret > 0);
+    const lowest = Math.min(...fretted);
+    const fingers = fretted.length <= 4 ? fretted.length : fretted.filter(fret => fret !== lowest).length + 1;
+    if (fingers > 4) return null;
+
+    const highest = Math.max(0, ...fretted);
+    const stretch = fretted.length > 0 ? highest - lowest : 0;
+    const missingOptional = [...allowed].filter(tone => !notes.has(tone)).length;
+    return highest * 2 + stretch + muted * 2 + fingers * 0.5 + missingOptional;
+  }
+}
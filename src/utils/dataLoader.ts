@@ -1,12 +1,21 @@
-import type { Song, Setlist, LoopTrack } from '../types';
-import { ChordProParser } from './chordProParser';
+import type { Song, Setlist, LoopTrack, Key } from '../types';
+import { ChordProParser, ChordProParseError } from './chordProParser';
+import { ChordTransposer } from './chordTransposer';
+import type { ChordProDiagnostic } from './chordProParser';
+import { ChordSheetConverter } from './chordSheetConverter';
+import { OpenLyricsConverter } from './openLyricsConverter';
+import { OpenSongConverter } from './openSongConverter';
 
 // Data loading utilities for ChordPro song files and JSON metadata
+
+// Song file names tried in order: ChordPro or chord sheets, OnSong, OpenLyrics
+// XML, then OpenSong's extensionless files
+const SONG_FILE_EXTENSIONS = ['.chordpro', '.onsong', '.xml', ''];
 interface SongIndex {
   id: string;
   title: string;
   artist: string;
-  originalKey: string;
+  originalKey: Key;
   tempo: number;
   capoPosition: number;
 }
@@ -15,6 +24,7 @@ class DataLoader {
   private static instance: DataLoader;
   private songsIndexCache: SongIndex[] | null = null;
   private individualSongsCache: Map<string, Song> = new Map();
+  private songDiagnosticsCache: Map<string, ChordProDiagnostic[]> = new Map();
   private setlistsCache: Setlist[] | null = null;
   private loopsCache: LoopTrack[] | null = null;
 
@@ -37,8 +47,12 @@ class DataLoader {
       if (!response.ok) {
         throw new Error(`Failed to load songs index: ${response.statusText}`);
       }
-      this.songsIndexCache = await response.json();
-      return this.songsIndexCache ?? [];
+      const indexData: Array<Omit<SongIndex, 'originalKey'> & { originalKey: string }> = await response.json();
+      this.songsIndexCache = indexData.map(song => ({
+        ...song,
+        originalKey: ChordTransposer.parseKey(song.originalKey) ?? ChordTransposer.DEFAULT_KEY
+      }));
+      return this.songsIndexCache;
     } catch (error) {
       console.error('Error loading songs index:', error);
       return [];
@@ -71,11 +85,15 @@ class DataLoader {
       }
       const setlistsData = await response.json();
       
-      // Convert date strings to Date objects
+      // Convert date strings to Date objects and key labels to keys
       this.setlistsCache = setlistsData.map((setlist: any) => ({
         ...setlist,
         createdAt: new Date(setlist.createdAt),
         updatedAt: new Date(setlist.updatedAt),
+        songs: setlist.songs.map((song: { customKey?: unknown }) => ({
+          ...song,
+          customKey: ChordTransposer.normaliseKey(song.customKey) ?? undefined
+        }))
       }));
       
       return this.setlistsCache ?? [];
@@ -95,34 +113,45 @@ class DataLoader {
       if (!response.ok) {
         throw new Error(`Failed to load loops: ${response.statusText}`);
       }
-      this.loopsCache = await response.json();
-      return this.loopsCache ?? [];
+      const loopsData: Array<Omit<LoopTrack, 'key'> & { key: string }> = await response.json();
+      // Loops without a readable key could never be matched to a song
+      this.loopsCache = loopsData.flatMap(loop => {
+        const key = ChordTransposer.parseKey(loop.key);
+        return key ? [{ ...loop, key }] : [];
+      });
+      return this.loopsCache;
     } catch (error) {
       console.error('Error loading loops:', error);
       return [];
     }
   }
 
-  async getSongById(id: string): Promise<Song | null> {
+  /**
+   * Load a song. In strict mode a song whose file has warnings or errors is
+   * rejected with a ChordProParseError instead of being returned.
+   */
+  async getSongById(id: string, options: { strict?: boolean } = {}): Promise<Song | null> {
+    const song = await this.loadSong(id);
+    if (options.strict) {
+      const problems = (this.songDiagnosticsCache.get(id) || []).filter(d => d.severity !== 'info');
+      if (problems.length > 0) throw new ChordProParseError(problems);
+    }
+    return song;
+  }
+
+  private async loadSong(id: string): Promise<Song | null> {
     // Check cache first
     if (this.individualSongsCache.has(id)) {
       return this.individualSongsCache.get(id) || null;
     }
 
     try {
-      // Load ChordPro file
-      const response = await fetch(`/data/songs/${id}.chordpro`);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to load song ${id}: ${response.statusText}`);
-      }
-      
-      // Parse ChordPro format
-      const chordproContent = await response.text();
-      const song = ChordProParser.parseChordPro(chordproContent, id);
+      const { content, extension } = await this.fetchSongFile(id);
+      const { song, diagnostics } = this.parseSongFile(content, id, extension);
       
       // Cache the loaded song
       this.individualSongsCache.set(id, song);
+      this.songDiagnosticsCache.set(id, diagnostics);
       return song;
     } catch (error) {
       console.error(`Error loading song ${id}:`, error);
@@ -130,14 +159,57 @@ class DataLoader {
     }
   }
 
+  // Fetch the first song file that exists for an id
+  private async fetchSongFile(id: string): Promise<{ content: string; extension: string }> {
+    for (const extension of SONG_FILE_EXTENSIONS) {
+      const response = await fetch(`/data/songs/${id}${extension}`);
+      // Dev servers answer missing files with the app's index.html
+      if (response.ok && !response.headers.get('content-type')?.includes('text/html')) {
+        return { content: await response.text(), extension };
+      }
+    }
+    throw new Error(`Failed to load song ${id}: no ${SONG_FILE_EXTENSIONS.map(ext => ext || 'extensionless').join(', ')} file found`);
+  }
+
+  // Parse a song file, which is usually ChordPro but may also be a plain
+  // chords-over-lyrics chart or an OpenLyrics/OpenSong export
+  private parseSongFile(content: string, id: string, extension: string): { song: Song; diagnostics: ChordProDiagnostic[] } {
+    if (OpenLyricsConverter.isOpenLyrics(content)) {
+      return { song: OpenLyricsConverter.parseOpenLyrics(content, id), diagnostics: [] };
+    }
+    if (OpenSongConverter.isOpenSong(content)) {
+      return { song: OpenSongConverter.parseOpenSong(content, id), diagnostics: [] };
+    }
+    if (ChordSheetConverter.isChordSheet(content)) {
+      return ChordSheetConverter.parse(content, id);
+    }
+    // .onsong files are OnSong's even when they carry no metadata to tell by
+    return ChordProParser.parse(content, id, extension === '.onsong' ? { dialect: 'onsong' } : {});
+  }
+
+  // Parser warnings and errors for a song's ChordPro file
+  async getSongDiagnostics(id: string): Promise<ChordProDiagnostic[]> {
+    if (!this.songDiagnosticsCache.has(id)) {
+      await this.loadSong(id);
+    }
+    return this.songDiagnosticsCache.get(id) || [];
+  }
+
   async getSetlistById(id: string): Promise<Setlist | null> {
     const setlists = await this.loadSetlists();
     return setlists.find(setlist => setlist.id === id) || null;
   }
 
-  async getLoopsByKey(key: string): Promise<LoopTrack[]> {
+  // Pads for a key, matched by pitch so A# finds the Bb pads. Minor keys use
+  // a dedicated minor pad when there is one, or else the relative major's.
+  async getLoopsByKey(key: Key): Promise<LoopTrack[]> {
     const loops = await this.loadLoops();
-    return loops.filter(loop => loop.key === key);
+    const matching = loops.filter(loop => ChordTransposer.isSameKey(loop.key, key));
+    if (matching.length > 0 || key.mode === 'major') {
+      return matching;
+    }
+    const relativeMajor = ChordTransposer.getRelativeMajor(key);
+    return loops.filter(loop => ChordTransposer.isSameKey(loop.key, relativeMajor));
   }
 
   async getSetlistWithSongs(setlistId: string): Promise<{ setlist: Setlist; songs: Song[] } | null> {
@@ -159,6 +231,7 @@ class DataLoader {
   clearCache(): void {
     this.songsIndexCache = null;
     this.individualSongsCache.clear();
+    this.songDiagnosticsCache.clear();
     this.setlistsCache = null;
     this.loopsCache = null;
   }
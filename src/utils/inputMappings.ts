@@ -0,0 +1,123 @@
+// Maps keyboard keys, the page turners and foot pedals that present as
+// keyboards, and MIDI controllers to performance actions
+
+export type PerformanceAction =
+  | 'scroll-down' | 'scroll-up'
+  | 'next-section' | 'previous-section'
+  | 'next-song' | 'previous-song'
+  | 'toggle-pad' | 'pad-volume'
+  | 'transpose-up' | 'transpose-down';
+
+// Inputs assigned to each action. Keys are written like "PageDown", "Space"
+// or "Shift+N"; MIDI messages like "MIDI:1:CC:64" (channel, type, number)
+// with types Note, CC and PC.
+export type InputMappings = Record<PerformanceAction, string[]>;
+
+// Continuous actions follow a controller's value instead of firing on press,
+// so only MIDI CCs can be assigned to them
+export const PERFORMANCE_ACTIONS: Array<{ action: PerformanceAction; label: string; continuous?: boolean }> = [
+  { action: 'scroll-down', label: 'Scroll down a page' },
+  { action: 'scroll-up', label: 'Scroll up a page' },
+  { action: 'next-section', label: 'Next section' },
+  { action: 'previous-section', label: 'Previous section' },
+  { action: 'next-song', label: 'Next song' },
+  { action: 'previous-song', label: 'Previous song' },
+  { action: 'toggle-pad', label: 'Start/stop pad' },
+  { action: 'pad-volume', label: 'Pad volume (MIDI CC)', continuous: true },
+  { action: 'transpose-up', label: 'Transpose up' },
+  { action: 'transpose-down', label: 'Transpose down' }
+];
+
+// Most pedals send PageUp/PageDown or the arrow keys out of the box
+export const DEFAULT_INPUT_MAPPINGS: InputMappings = {
+  'scroll-down': ['PageDown', 'ArrowDown', 'Space'],
+  'scroll-up': ['PageUp', 'ArrowUp'],
+  'next-section': [']'],
+  'previous-section': ['['],
+  'next-song': ['ArrowRight'],
+  'previous-song': ['ArrowLeft'],
+  'toggle-pad': ['P'],
+  'pad-volume': [],
+  'transpose-up': ['='],
+  'transpose-down': ['-']
+};
+
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock', 'Fn'];
+
+// How keys with symbols are shown
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down'
+};
+
+export class InputMapper {
+  /**
+   * The input name for a key press, e.g. "PageDown", "Space" or "Ctrl+K".
+   * Returns null for presses of a modifier key on its own.
+   */
+  static fromKeyboardEvent(event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'altKey' | 'metaKey'>): string | null {
+    if (MODIFIER_KEYS.includes(event.key)) return null;
+
+    let key = event.key === ' ' ? 'Space' : event.key;
+    if (key.length === 1) key = key.toUpperCase();
+    // Shift is part of symbols like "+" already, so only named keys and
+    // letters record it
+    const shift = event.shiftKey && (key.length > 1 || /[A-Z]/.test(key));
+
+    return [
+      event.ctrlKey && 'Ctrl',
+      event.altKey && 'Alt',
+      event.metaKey && 'Meta',
+      shift && 'Shift',
+      key
+    ].filter(Boolean).join('+');
+  }
+
+  static findAction(mappings: InputMappings, input: string): PerformanceAction | null {
+    const match = PERFORMANCE_ACTIONS.find(({ action }) => mappings[action]?.includes(input));
+    return match?.action ?? null;
+  }
+
+  /**
+   * Assign an input to an action, taking it off any other action
+   */
+  static assign(mappings: InputMappings, action: PerformanceAction, input: string): InputMappings {
+    const updated = { ...mappings };
+    for (const { action: other } of PERFORMANCE_ACTIONS) {
+      updated[other] = (updated[other] || []).filter(existing => existing !== input);
+    }
+    updated[action] = [...updated[action], input];
+    return updated;
+  }
+
+  static unassign(mappings: InputMappings, action: PerformanceAction, input: string): InputMappings {
+    return { ...mappings, [action]: mappings[action].filter(existing => existing !== input) };
+  }
+
+  /**
+   * Fill in actions missing from mappings saved by an older version
+   */
+  static withDefaults(mappings: Partial<InputMappings> | undefined): InputMappings {
+    return { ...DEFAULT_INPUT_MAPPINGS, ...mappings };
+  }
+
+  static isMidi(input: string): boolean {
+    return input.startsWith('MIDI:');
+  }
+
+  static isContinuous(action: PerformanceAction): boolean {
+    return PERFORMANCE_ACTIONS.some(entry => entry.action === action && entry.continuous);
+  }
+
+  static describe(input: string): string {
+    if (this.isMidi(input)) {
+      const [, channel, type, number] = input.split(':');
+      return `Ch ${channel} ${type} ${number}`;
+    }
+    return input.split('+').map(part => KEY_LABELS[part] ?? part).join(' + ');
+  }
+}
@@ -0,0 +1,95 @@
+import type { InstrumentId, TuningId } from '../types';
+
+export interface InstrumentProfile {
+  id: InstrumentId;
+  name: string;
+  tuning: number[]; // MIDI note of each open string, lowest string first; empty for keyboards
+  tuningId: TuningId;
+  pitchShift: number; // Semitones the whole instrument is tuned away from standard, e.g. -1 for Eb standard
+  diagram: 'fretted' | 'keyboard' | 'none';
+  capo: boolean; // Whether capo positions and capo shapes apply
+  rootInBass: boolean; // Shapes put the chord's bass note on the lowest sounding string
+  bassNotesOnly: boolean; // Show each chord's bass note instead of the chord
+}
+
+export interface Tuning {
+  id: TuningId;
+  name: string;
+  offsets: number[]; // Semitones each string is moved from standard tuning
+}
+
+const INSTRUMENTS: Record<InstrumentId, Omit<InstrumentProfile, 'tuningId' | 'pitchShift'>> = {
+  guitar: { id: 'guitar', name: 'Guitar', tuning: [40, 45, 50, 55, 59, 64], diagram: 'fretted', capo: true, rootInBass: true, bassNotesOnly: false },
+  // Re-entrant GCEA: the G string is tuned above the C, so any chord tone can
+  // be lowest
+  ukulele: { id: 'ukulele', name: 'Ukulele', tuning: [67, 60, 64, 69], diagram: 'fretted', capo: true, rootInBass: false, bassNotesOnly: false },
+  mandolin: { id: 'mandolin', name: 'Mandolin', tuning: [55, 62, 69, 76], diagram: 'fretted', capo: true, rootInBass: false, bassNotesOnly: false },
+  bass: { id: 'bass', name: 'Bass', tuning: [28, 33, 38, 43], diagram: 'none', capo: false, rootInBass: true, bassNotesOnly: true },
+  keyboard: { id: 'keyboard', name: 'Keyboard', tuning: [], diagram: 'keyboard', capo: false, rootInBass: true, bassNotesOnly: false }
+};
+
+// Alternate tunings by instrument, standard first
+const TUNINGS: Record<InstrumentId, Tuning[]> = {
+  guitar: [
+    { id: 'standard', name: 'Standard (EADGBE)', offsets: [0, 0, 0, 0, 0, 0] },
+    { id: 'half-step-down', name: 'Eb Standard', offsets: [-1, -1, -1, -1, -1, -1] },
+    { id: 'whole-step-down', name: 'D Standard', offsets: [-2, -2, -2, -2, -2, -2] },
+    { id: 'drop-d', name: 'Drop D', offsets: [-2, 0, 0, 0, 0, 0] },
+    { id: 'double-drop-d', name: 'Double Drop D', offsets: [-2, 0, 0, 0, 0, -2] },
+    { id: 'dadgad', name: 'DADGAD', offsets: [-2, 0, 0, 0, -2, -2] },
+    { id: 'open-g', name: 'Open G', offsets: [-2, -2, 0, 0, 0, -2] }
+  ],
+  ukulele: [
+    { id: 'standard', name: 'Standard (GCEA)', offsets: [0, 0, 0, 0] },
+    { id: 'd-tuning', name: 'D Tuning (ADF#B)', offsets: [2, 2, 2, 2] }
+  ],
+  mandolin: [{ id: 'standard', name: 'Standard (GDAE)', offsets: [0, 0, 0, 0] }],
+  bass: [{ id: 'standard', name: 'Standard (EADG)', offsets: [0, 0, 0, 0] }],
+  keyboard: [{ id: 'standard', name: 'Standard', offsets: [] }]
+};
+
+// Instrument profiles: tuning and how chords are drawn for each instrument
+export class Instruments {
+  /**
+   * Get an instrument in one of its tunings. Tunings the instrument doesn't
+   * have fall back to standard.
+   */
+  static get(id: InstrumentId, tuningId: TuningId = 'standard'): InstrumentProfile {
+    const instrument = INSTRUMENTS[id] ?? INSTRUMENTS.guitar;
+    const tuning = this.getTuning(instrument.id, tuningId);
+    return {
+      ...instrument,
+      tuning: instrument.tuning.map((note, string) => note + (tuning.offsets[string] ?? 0)),
+      tuningId: tuning.id,
+      // Strings lowered unevenly (drop D) keep the pitch of the highest ones
+      pitchShift: tuning.offsets.length > 0 ? Math.max(...tuning.offsets) : 0
+    };
+  }
+
+  static getAll(): InstrumentProfile[] {
+    return (Object.keys(INSTRUMENTS) as InstrumentId[]).map(id => this.get(id));
+  }
+
+  static getTunings(id: InstrumentId): Tuning[] {
+    return TUNINGS[id] ?? TUNINGS.guitar;
+  }
+
+  static getTuning(id: InstrumentId, tuningId: TuningId): Tuning {
+    const tunings = this.getTunings(id);
+    return tunings.find(tuning => tuning.id === tuningId) ?? tunings[0];
+  }
+
+  /**
+   * The instrument as its player thinks of it when reading shapes: the pitch
+   * shift is taken out, so Eb standard fingers like standard tuning and
+   * drop D keeps only its lowered string
+   */
+  static getShapeProfile(instrument: InstrumentProfile): InstrumentProfile {
+    if (instrument.pitchShift === 0) return instrument;
+    return { ...instrument, tuning: instrument.tuning.map(note => note - instrument.pitchShift), pitchShift: 0 };
+  }
+
+  static isStandardTuning(instrument: InstrumentProfile): boolean {
+    return instrument.tuning.join() === INSTRUMENTS[instrument.id].tuning.join();
+  }
+}
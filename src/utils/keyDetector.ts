@@ -0,0 +1,116 @@
+import type { Key } from '../types';
+import { ChordGrammar } from './chordGrammar';
+import type { ParsedChord } from './chordGrammar';
+import { ChordTransposer } from './chordTransposer';
+
+export interface KeyCandidate {
+  key: Key; // e.g. G major or E minor
+  score: number;
+  fit: number; // Share of chord occurrences that belong to the key, 0-1
+}
+
+type TriadType = 'major' | 'minor' | 'diminished';
+
+// Diatonic triads by semitones above the tonic. Minor keys also allow the
+// major V of harmonic minor.
+const MAJOR_SCALE_TRIADS: Record<number, TriadType[]> = {
+  0: ['major'], 2: ['minor'], 4: ['minor'], 5: ['major'], 7: ['major'], 9: ['minor'], 11: ['diminished']
+};
+const MINOR_SCALE_TRIADS: Record<number, TriadType[]> = {
+  0: ['minor'], 2: ['diminished'], 3: ['major'], 5: ['minor'], 7: ['minor', 'major'], 8: ['major'], 10: ['major']
+};
+
+// How much each kind of evidence counts towards a key
+const FIT_WEIGHT = 10;
+const TONIC_FREQUENCY_WEIGHT = 3;
+const FIRST_CHORD_BONUS = 1;
+const LAST_CHORD_BONUS = 1.5;
+
+// Guesses a song's key from its chord progression
+export class KeyDetector {
+  /**
+   * Rank all 24 major and minor keys for a list of chord occurrences, best
+   * first. Chords that don't parse (N.C., typos) are ignored.
+   */
+  static rank(chords: string[]): KeyCandidate[] {
+    const parsed = chords
+      .map(chord => ChordGrammar.parse(chord))
+      .filter(chord => chord !== null)
+      .map(chord => ({ root: ChordTransposer.getNoteIndex(chord.root), triad: this.getTriadType(chord) }));
+    if (parsed.length === 0) return [];
+
+    const candidates: KeyCandidate[] = [];
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const minor of [false, true]) {
+        const triads = minor ? MINOR_SCALE_TRIADS : MAJOR_SCALE_TRIADS;
+        const tonicTriad: TriadType = minor ? 'minor' : 'major';
+        const isTonic = (chord: typeof parsed[number]) =>
+          chord.root === tonic && (chord.triad === null || chord.triad === tonicTriad);
+
+        // Chords on a scale degree with the wrong quality count for half
+        let fit = 0;
+        for (const chord of parsed) {
+          const allowed = triads[(chord.root - tonic + 12) % 12];
+          if (allowed) {
+            fit += chord.triad === null || allowed.includes(chord.triad) ? 1 : 0.5;
+          }
+        }
+        fit /= parsed.length;
+
+        const tonicShare = parsed.filter(isTonic).length / parsed.length;
+        const score = fit * FIT_WEIGHT +
+          tonicShare * TONIC_FREQUENCY_WEIGHT +
+          (isTonic(parsed[0]) ? FIRST_CHORD_BONUS : 0) +
+          (isTonic(parsed[parsed.length - 1]) ? LAST_CHORD_BONUS : 0);
+
+        candidates.push({
+          key: ChordTransposer.transposeKey({ tonic: minor ? 'A' : 'C', mode: minor ? 'minor' : 'major' }, (tonic - (minor ? 9 : 0) + 12) % 12),
+          score,
+          fit
+        });
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * The most likely key for a list of chord occurrences, or null when there
+   * are no chords to go on
+   */
+  static detect(chords: string[]): KeyCandidate | null {
+    return this.rank(chords)[0] ?? null;
+  }
+
+  /**
+   * Check whether a declared key disagrees strongly with the chords: the
+   * chords fit another key well and fit the declared one much worse.
+   * Returns the better key, or null when the declared key is plausible.
+   */
+  static findMismatch(chords: string[], declaredKey: Key): KeyCandidate | null {
+    const ranking = this.rank(chords);
+    if (ranking.length === 0) return null;
+
+    const best = ranking[0];
+    const candidate = ranking.find(c => ChordTransposer.isSameKey(c.key, declaredKey));
+    if (!candidate || best.fit < 0.8 || candidate.fit >= best.fit - 0.25) return null;
+    return best;
+  }
+
+  // Sus and power chords have no third, so they fit either quality
+  private static getTriadType(chord: ParsedChord): TriadType | null {
+    if (chord.sus) return null;
+    switch (chord.quality) {
+      case 'major':
+      case 'augmented':
+        return 'major';
+      case 'minor':
+        return 'minor';
+      case 'diminished':
+      case 'half-diminished':
+        return 'diminished';
+      default:
+        return null;
+    }
+  }
+}
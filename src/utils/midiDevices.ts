@@ -0,0 +1,123 @@
+// Web MIDI access shared by the performance view and the MIDI-learn settings
+
+export interface MidiMessage {
+  input: string; // Mapping input name, e.g. "MIDI:1:CC:64"
+  kind: 'note' | 'cc' | 'program';
+  value: number; // Velocity, controller value or program number, 0..127
+}
+
+type MidiListener = (message: MidiMessage) => void;
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const PROGRAM_CHANGE = 0xc0;
+
+class MidiDevices {
+  private static instance: MidiDevices;
+  private accessPromise: Promise<MIDIAccess | null> | null = null;
+  private listeners: Set<MidiListener> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): MidiDevices {
+    if (!MidiDevices.instance) {
+      MidiDevices.instance = new MidiDevices();
+    }
+    return MidiDevices.instance;
+  }
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+  }
+
+  /**
+   * Ask for MIDI access once; resolves to null where the browser has no Web
+   * MIDI or the user refuses
+   */
+  async getAccess(): Promise<MIDIAccess | null> {
+    if (!this.isSupported()) return null;
+    if (!this.accessPromise) {
+      this.accessPromise = navigator.requestMIDIAccess()
+        .then(access => {
+          access.inputs.forEach(input => this.listenTo(input));
+          // Controllers plugged in later
+          access.addEventListener('statechange', event => {
+            const port = (event as MIDIConnectionEvent).port;
+            if (port instanceof MIDIInput && port.state === 'connected') this.listenTo(port);
+          });
+          return access;
+        })
+        .catch(error => {
+          console.error('MIDI access was refused:', error);
+          this.accessPromise = null;
+          return null;
+        });
+    }
+    return this.accessPromise;
+  }
+
+  /**
+   * Receive note on, control change and program change messages from every
+   * connected input. Returns a function that stops listening.
+   */
+  subscribe(listener: MidiListener): () => void {
+    this.listeners.add(listener);
+    void this.getAccess();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a program change to every output. Channels are 1..16.
+   */
+  async sendProgramChange(program: number, channel: number): Promise<void> {
+    const access = await this.getAccess();
+    if (!access) return;
+    const status = PROGRAM_CHANGE | (Math.min(16, Math.max(1, channel)) - 1);
+    access.outputs.forEach(output => {
+      try {
+        output.send([status, Math.min(127, Math.max(0, program))]);
+      } catch (error) {
+        console.error(`Failed to send program change to ${output.name}:`, error);
+      }
+    });
+  }
+
+  async getDeviceNames(): Promise<string[]> {
+    const access = await this.getAccess();
+    if (!access) return [];
+    const names: string[] = [];
+    access.inputs.forEach(input => names.push(input.name || 'Unknown device'));
+    return names;
+  }
+
+  private listenTo(input: MIDIInput): void {
+    input.onmidimessage = event => {
+      const message = event.data && this.parseMessage(event.data);
+      if (message) this.listeners.forEach(listener => listener(message));
+    };
+  }
+
+  // Note offs and note ons with no velocity are ignored: actions fire on press
+  private parseMessage(data: Uint8Array): MidiMessage | null {
+    if (data.length < 2) return null;
+    const type = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    switch (type) {
+      case NOTE_ON:
+        if (data[2] === 0) return null;
+        return { input: `MIDI:${channel}:Note:${data[1]}`, kind: 'note', value: data[2] ?? 127 };
+      case CONTROL_CHANGE:
+        return { input: `MIDI:${channel}:CC:${data[1]}`, kind: 'cc', value: data[2] ?? 0 };
+      case PROGRAM_CHANGE:
+        return { input: `MIDI:${channel}:PC:${data[1]}`, kind: 'program', value: data[1] };
+      case NOTE_OFF:
+      default:
+        return null;
+    }
+  }
+}
+
+export const midiDevices = MidiDevices.getInstance();
@@ -0,0 +1,285 @@
+import type { Song, SongSection, ChordLyricLine } from '../types';
+import { ChordProParser } from './chordProParser';
+import { ChordTransposer } from './chordTransposer';
+
+const OPENLYRICS_NAMESPACE = 'http://openlyrics.info/namespace/2009/song';
+
+// Section type and display name for each verse tag letter shared by OpenLyrics
+// ("v1", "c", "b") and OpenSong ("V1", "C", "B")
+const VERSE_TAGS: Record<string, { type: SongSection['type']; name: string }> = {
+  v: { type: 'verse', name: 'Verse' },
+  c: { type: 'chorus', name: 'Chorus' },
+  p: { type: 'prechorus', name: 'Pre-Chorus' },
+  b: { type: 'bridge', name: 'Bridge' },
+  i: { type: 'intro', name: 'Intro' },
+  e: { type: 'outro', name: 'Outro' }, // "Ending" in OpenLP
+  t: { type: 'tag', name: 'Tag' },
+  o: { type: 'verse', name: 'Other' }
+};
+
+// Verse tag letter written for each section type; anything else is "o" (other)
+const SECTION_TAGS: Record<string, string> = {
+  verse: 'v',
+  prechorus: 'p',
+  chorus: 'c',
+  refrain: 'c',
+  bridge: 'b',
+  intro: 'i',
+  outro: 'e',
+  ending: 'e',
+  tag: 't'
+};
+
+// Imports and exports OpenLyrics XML, the format used by OpenLP
+export class OpenLyricsConverter {
+  static isOpenLyrics(content: string): boolean {
+    return content.includes(OPENLYRICS_NAMESPACE);
+  }
+
+  /**
+   * Parse an OpenLyrics document into a Song. Verses are placed in
+   * <verseOrder> order, with repeated verses recalling the first occurrence.
+   */
+  static parseOpenLyrics(content: string, id: string): Song {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      console.error('Error parsing OpenLyrics XML for song', id);
+      throw new Error(`Invalid OpenLyrics XML for song ${id}`);
+    }
+
+    const properties = doc.getElementsByTagName('properties')[0];
+    const property = (tagName: string) =>
+      properties?.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+
+    const verses = new Map<string, SongSection>();
+    for (const verse of Array.from(doc.getElementsByTagName('verse'))) {
+      const tag = verse.getAttribute('name') || `v${verses.size + 1}`;
+      const section = this.sectionFromTag(tag);
+      for (const lines of Array.from(verse.getElementsByTagName('lines'))) {
+        section.content.push(...this.parseLines(lines));
+      }
+      verses.set(tag.toLowerCase(), section);
+    }
+
+    const authors = Array.from(properties?.getElementsByTagName('author') || [])
+      .map(author => author.textContent?.trim())
+      .filter(Boolean);
+    const tempo = properties?.getElementsByTagName('tempo')[0];
+    const bpm = tempo?.getAttribute('type') !== 'text' ? parseInt(tempo?.textContent || '', 10) : NaN;
+    const copyright = property('copyright');
+    const ccli = property('ccliNo');
+    const timeSignature = property('timeSignature');
+    const notes = Array.from(properties?.getElementsByTagName('comment') || [])
+      .map(comment => comment.textContent?.trim())
+      .filter(Boolean)
+      .join('\n');
+
+    return {
+      id,
+      title: property('title') || 'Unknown Title',
+      artist: authors.join(' & ') || 'Unknown Artist',
+      originalKey: ChordTransposer.parseKey(property('key') || '') ?? ChordTransposer.DEFAULT_KEY,
+      capoPosition: 0,
+      ...(timeSignature && { timeSignature }),
+      tempo: Number.isNaN(bpm) ? undefined : bpm,
+      sections: this.orderSections(verses, property('verseOrder')),
+      metadata: {
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        tags: [],
+        ...(notes && { notes }),
+        ...(ccli && { ccli }),
+        ...(copyright && { copyright })
+      }
+    };
+  }
+
+  /**
+   * Write a song out as an OpenLyrics 0.9 document
+   */
+  static songToOpenLyrics(song: Song): string {
+    const { verses, order } = this.assignTags(song.sections);
+    const { copyright, ccli } = song.metadata;
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<song xmlns="${OPENLYRICS_NAMESPACE}" version="0.9" createdIn="GigPad" modifiedIn="GigPad" modifiedDate="${song.metadata.updatedAt.toISOString()}">`,
+      '  <properties>',
+      '    <titles>',
+      `      <title>${this.escapeXml(song.title)}</title>`,
+      '    </titles>',
+      '    <authors>',
+      `      <author>${this.escapeXml(song.artist)}</author>`,
+      '    </authors>'
+    ];
+    if (copyright) xml.push(`    <copyright>${this.escapeXml(copyright)}</copyright>`);
+    if (ccli) xml.push(`    <ccliNo>${this.escapeXml(ccli)}</ccliNo>`);
+    xml.push(`    <key>${this.escapeXml(ChordTransposer.formatKey(song.originalKey))}</key>`);
+    if (song.tempo) xml.push(`    <tempo type="bpm">${song.tempo}</tempo>`);
+    if (song.timeSignature) xml.push(`    <timeSignature>${this.escapeXml(song.timeSignature)}</timeSignature>`);
+    xml.push(`    <verseOrder>${order.join(' ')}</verseOrder>`);
+    if (song.metadata.notes) {
+      xml.push('    <comments>', `      <comment>${this.escapeXml(song.metadata.notes)}</comment>`, '    </comments>');
+    }
+    xml.push('  </properties>', '  <lyrics>');
+
+    for (const [tag, section] of verses) {
+      const lines = section.content.map(line => line.comment
+        ? `<comment>${this.escapeXml(line.lyrics)}</comment>`
+        : this.renderLine(line));
+      xml.push(`    <verse name="${tag}">`, `      <lines>${lines.join('<br/>')}</lines>`, '    </verse>');
+    }
+
+    xml.push('  </lyrics>', '</song>', '');
+    return xml.join('\n');
+  }
+
+  /**
+   * Build a section from a verse tag such as "v1", "c" or "V2"
+   */
+  static sectionFromTag(tag: string): SongSection {
+    const match = tag.trim().match(/^([A-Za-z])[A-Za-z]*\s*(\d*[a-z]?)$/i);
+    const known = match ? VERSE_TAGS[match[1].toLowerCase()] : undefined;
+    if (!match || !known) {
+      return { ...ChordProParser.createSection(`${tag}:`), content: [] };
+    }
+
+    return {
+      type: known.type,
+      name: match[2] ? `${known.name} ${match[2]}` : known.name,
+      content: []
+    };
+  }
+
+  /**
+   * Give each written-out section a unique verse tag ("v1", "c", "c2") and
+   * list the tags in the order the song is sung, including recalls and repeats
+   */
+  static assignTags(sections: SongSection[]): { verses: Map<string, SongSection>; order: string[] } {
+    const verses = new Map<string, SongSection>();
+    const tagsByName = new Map<string, string>();
+    const order: string[] = [];
+
+    for (const section of sections) {
+      let tag: string | undefined;
+      if (section.reference) {
+        tag = tagsByName.get(section.reference.toLowerCase());
+      } else {
+        const letter = SECTION_TAGS[section.type] || 'o';
+        const number = section.name?.match(/\d+/)?.[0] || '';
+        tag = `${letter}${number}`;
+        for (let n = 2; verses.has(tag); n++) {
+          tag = `${letter}${n}`;
+        }
+        verses.set(tag, section);
+        tagsByName.set((section.name || tag).toLowerCase(), tag);
+      }
+
+      if (tag) {
+        order.push(...Array(section.repeat || 1).fill(tag));
+      }
+    }
+
+    return { verses, order };
+  }
+
+  /**
+   * Lay out verses in performance order: the first use of a tag is the written
+   * section and later uses recall it. Verses left out of the order are kept at
+   * the end so nothing is lost.
+   */
+  static orderSections(verses: Map<string, SongSection>, verseOrder?: string): SongSection[] {
+    const tags = (verseOrder || '').split(/\s+/).map(tag => tag.toLowerCase()).filter(tag => verses.has(tag));
+    if (tags.length === 0) return Array.from(verses.values());
+
+    const sections: SongSection[] = [];
+    const used = new Set<string>();
+    for (const tag of tags) {
+      const section = verses.get(tag)!;
+      if (used.has(tag)) {
+        sections.push({ type: section.type, name: section.name, content: [], reference: section.name });
+      } else {
+        sections.push(section);
+        used.add(tag);
+      }
+    }
+
+    for (const [tag, section] of verses) {
+      if (!used.has(tag)) sections.push(section);
+    }
+    return sections;
+  }
+
+  static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * Read the lines of a <lines> element: <br/> separates lines and each
+   * <chord name="G"/> is placed at the current lyric position
+   */
+  private static parseLines(element: Element): ChordLyricLine[] {
+    const result: ChordLyricLine[] = [];
+    let current: ChordLyricLine = { lyrics: '', chords: [] };
+
+    const finishLine = () => {
+      // Whitespace around line breaks in the XML is not part of the lyric,
+      // but chord-only lines keep their spacing between chords
+      const chordOnly = !current.lyrics.trim();
+      const leading = chordOnly ? 0 : current.lyrics.length - current.lyrics.trimStart().length;
+      const line: ChordLyricLine = {
+        lyrics: chordOnly ? current.lyrics : current.lyrics.trim(),
+        chords: current.chords.map(c => ({ ...c, position: Math.max(0, c.position - leading) }))
+      };
+      if (line.lyrics.trim() || line.chords.length > 0) {
+        result.push(line);
+      }
+      current = { lyrics: '', chords: [] };
+    };
+
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === 3) {
+          current.lyrics += (child.textContent || '').replace(/\s*\n\s*/g, ' ');
+        } else if (child.nodeType === 1) {
+          const el = child as Element;
+          const tagName = el.localName;
+          if (tagName === 'br') {
+            finishLine();
+          } else if (tagName === 'chord') {
+            const root = el.getAttribute('root');
+            const bass = el.getAttribute('bass');
+            const chord = el.getAttribute('name') || (root ? `${root}${bass ? `/${bass}` : ''}` : '');
+            if (chord) current.chords.push({ chord, position: current.lyrics.length });
+            walk(el);
+          } else if (tagName === 'comment') {
+            finishLine();
+            result.push({ lyrics: (el.textContent || '').trim(), chords: [], comment: 'normal' });
+          } else {
+            walk(el);
+          }
+        }
+      }
+    };
+
+    walk(element);
+    finishLine();
+    return result;
+  }
+
+  private static renderLine(line: ChordLyricLine): string {
+    let xml = '';
+    let position = 0;
+    const chords = [...line.chords].sort((a, b) => a.position - b.position);
+    for (const { chord, position: chordPosition } of chords) {
+      xml += this.escapeXml(line.lyrics.slice(position, chordPosition));
+      xml += `<chord name="${this.escapeXml(chord)}"/>`;
+      position = Math.max(position, chordPosition);
+    }
+    return xml + this.escapeXml(line.lyrics.slice(position));
+  }
+}
@@ -0,0 +1,154 @@
+import type { Song, SongSection, ChordLyricLine } from '../types';
+import { ChordProParser } from './chordProParser';
+import { ChordTransposer } from './chordTransposer';
+import { ChordSheetConverter } from './chordSheetConverter';
+import { OpenLyricsConverter } from './openLyricsConverter';
+
+// Imports and exports OpenSong XML. OpenSong keeps lyrics as plain text in
+// <lyrics>: "[V1]" starts a verse, lines starting "." hold chords aligned
+// over the " " lyric line below, and ";" lines are comments.
+export class OpenSongConverter {
+  static isOpenSong(content: string): boolean {
+    return /<song>/.test(content) && /<lyrics>/.test(content) && !OpenLyricsConverter.isOpenLyrics(content);
+  }
+
+  /**
+   * Parse an OpenSong document into a Song, following <presentation> order
+   */
+  static parseOpenSong(content: string, id: string): Song {
+    const doc = new DOMParser().parseFromString(content, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      console.error('Error parsing OpenSong XML for song', id);
+      throw new Error(`Invalid OpenSong XML for song ${id}`);
+    }
+
+    const field = (tagName: string) =>
+      doc.documentElement.getElementsByTagName(tagName)[0]?.textContent?.trim() || undefined;
+
+    const copyright = field('copyright');
+    const ccli = field('ccli');
+    const timeSignature = field('time_sig');
+    const notes = field('notes');
+    const capo = parseInt(field('capo') || '', 10);
+    const tempo = parseInt(field('tempo') || '', 10);
+
+    return {
+      id,
+      title: field('title') || 'Unknown Title',
+      artist: field('author') || 'Unknown Artist',
+      originalKey: ChordTransposer.parseKey(field('key') || '') ?? ChordTransposer.DEFAULT_KEY,
+      capoPosition: Number.isNaN(capo) ? 0 : capo,
+      ...(timeSignature && { timeSignature }),
+      tempo: Number.isNaN(tempo) ? undefined : tempo,
+      sections: OpenLyricsConverter.orderSections(this.parseLyrics(field('lyrics') || ''), field('presentation')),
+      metadata: {
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        tags: [],
+        ...(notes && { notes }),
+        ...(ccli && { ccli }),
+        ...(copyright && { copyright })
+      }
+    };
+  }
+
+  /**
+   * Write a song out as an OpenSong document
+   */
+  static songToOpenSong(song: Song): string {
+    const { verses, order } = OpenLyricsConverter.assignTags(song.sections);
+    const escape = (text: string) => OpenLyricsConverter.escapeXml(text);
+    const { copyright, ccli } = song.metadata;
+
+    const lyrics: string[] = [];
+    for (const [tag, section] of verses) {
+      lyrics.push(`[${tag.toUpperCase()}]`);
+      for (const line of section.content) {
+        lyrics.push(...this.renderLine(line));
+      }
+      lyrics.push('');
+    }
+
+    const xml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<song>',
+      `  <title>${escape(song.title)}</title>`,
+      `  <author>${escape(song.artist)}</author>`,
+      `  <copyright>${escape(copyright || '')}</copyright>`,
+      `  <ccli>${escape(ccli || '')}</ccli>`,
+      `  <presentation>${order.map(tag => tag.toUpperCase()).join(' ')}</presentation>`,
+      `  <key>${escape(ChordTransposer.formatKey(song.originalKey))}</key>`,
+      `  <capo print="false">${song.capoPosition || ''}</capo>`,
+      `  <tempo>${song.tempo || ''}</tempo>`,
+      `  <time_sig>${escape(song.timeSignature || '')}</time_sig>`
+    ];
+    if (song.metadata.notes) xml.push(`  <notes>${escape(song.metadata.notes)}</notes>`);
+    xml.push(`  <lyrics>${escape(lyrics.join('\n').trimEnd())}</lyrics>`, '</song>', '');
+    return xml.join('\n');
+  }
+
+  /**
+   * Split OpenSong lyrics text into sections keyed by lower-case verse tag
+   */
+  static parseLyrics(text: string): Map<string, SongSection> {
+    const verses = new Map<string, SongSection>();
+    const lines = text.split(/\r?\n/);
+    let current: SongSection | null = null;
+
+    const addLine = (line: ChordLyricLine | null) => {
+      if (!line) return;
+      if (!current) {
+        current = { ...OpenLyricsConverter.sectionFromTag('v'), content: [] };
+        verses.set('v', current);
+      }
+      current.content.push(line);
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const tag = line.match(/^\[([^\]]+)\]\s*$/);
+
+      if (tag) {
+        current = OpenLyricsConverter.sectionFromTag(tag[1]);
+        verses.set(tag[1].trim().toLowerCase(), current);
+      } else if (line.startsWith(';')) {
+        addLine({ lyrics: line.slice(1).trim(), chords: [], comment: 'normal' });
+      } else if (line.startsWith('.')) {
+        // The chord line and the lyric line both have a one character prefix,
+        // so their columns line up once it is stripped
+        const next = lines[i + 1];
+        const hasLyrics = next !== undefined && /^[ \d]/.test(next) && next.trim().length > 0;
+        const merged = ChordSheetConverter.mergeChordLine(line.slice(1), hasLyrics ? this.cleanLyric(next) : '');
+        if (hasLyrics) i++;
+        addLine(ChordProParser.parseChordLyricLine(merged));
+      } else if (line.trim()) {
+        addLine(ChordProParser.parseChordLyricLine(this.cleanLyric(line).trimEnd()));
+      }
+    }
+
+    return verses;
+  }
+
+  // Strip the line prefix and turn "|" projector line breaks into spaces,
+  // keeping columns aligned with the chord line
+  private static cleanLyric(line: string): string {
+    return line.replace(/^[ \d]/, '').replace(/\|/g, ' ');
+  }
+
+  /**
+   * Render a line as an OpenSong chord line ("." prefix) over a lyric line
+   */
+  private static renderLine(line: ChordLyricLine): string[] {
+    if (line.comment) return [`;${line.lyrics}`];
+    if (line.chords.length === 0) return [` ${line.lyrics}`];
+
+    let chordLine = '';
+    for (const { chord, position } of [...line.chords].sort((a, b) => a.position - b.position)) {
+      // Keep at least one space between chords that would otherwise touch
+      const column = chordLine.length > 0 ? Math.max(position, chordLine.length + 1) : position;
+      chordLine = chordLine.padEnd(column) + chord;
+    }
+
+    return line.lyrics.trim() ? [`.${chordLine}`, ` ${line.lyrics}`] : [`.${chordLine}`];
+  }
+}
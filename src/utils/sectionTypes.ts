@@ -0,0 +1,87 @@
+import type { SectionType } from '../types';
+
+export interface SectionTypeInfo {
+  type: SectionType;
+  label: string; // Display name, e.g. "Pre-Chorus"
+  abbreviation: string; // Short form for flows and compact displays, e.g. "PC"
+  color: string; // Tailwind text color classes
+  aliases: string[]; // Words in a section name that identify the type
+}
+
+// Known section types. Order matters when matching names: more specific
+// aliases come first so "Pre-Chorus" isn't read as a chorus.
+const SECTION_TYPES: SectionTypeInfo[] = [
+  { type: 'prechorus', label: 'Pre-Chorus', abbreviation: 'PC', color: 'text-teal-600 dark:text-teal-400', aliases: ['pre-chorus', 'prechorus', 'pre chorus', 'pre'] },
+  { type: 'chorus', label: 'Chorus', abbreviation: 'C', color: 'text-green-600 dark:text-green-400', aliases: ['chorus'] },
+  { type: 'refrain', label: 'Refrain', abbreviation: 'R', color: 'text-emerald-600 dark:text-emerald-400', aliases: ['refrain'] },
+  { type: 'verse', label: 'Verse', abbreviation: 'V', color: 'text-blue-600 dark:text-blue-400', aliases: ['verse'] },
+  { type: 'bridge', label: 'Bridge', abbreviation: 'B', color: 'text-purple-600 dark:text-purple-400', aliases: ['bridge'] },
+  { type: 'intro', label: 'Intro', abbreviation: 'I', color: 'text-gray-600 dark:text-gray-400', aliases: ['intro'] },
+  { type: 'outro', label: 'Outro', abbreviation: 'O', color: 'text-gray-600 dark:text-gray-400', aliases: ['outro'] },
+  { type: 'ending', label: 'Ending', abbreviation: 'E', color: 'text-slate-600 dark:text-slate-400', aliases: ['ending'] },
+  { type: 'tag', label: 'Tag', abbreviation: 'T', color: 'text-orange-600 dark:text-orange-400', aliases: ['tag'] },
+  { type: 'interlude', label: 'Interlude', abbreviation: 'IL', color: 'text-indigo-600 dark:text-indigo-400', aliases: ['interlude'] },
+  { type: 'instrumental', label: 'Instrumental', abbreviation: 'IN', color: 'text-pink-600 dark:text-pink-400', aliases: ['instrumental', 'solo'] },
+  { type: 'turnaround', label: 'Turnaround', abbreviation: 'TA', color: 'text-cyan-600 dark:text-cyan-400', aliases: ['turnaround'] },
+  { type: 'vamp', label: 'Vamp', abbreviation: 'VP', color: 'text-rose-600 dark:text-rose-400', aliases: ['vamp'] },
+  // Only created by {start_of_tab}/{start_of_grid}, never from a section name
+  { type: 'tab', label: 'Tab', abbreviation: 'TAB', color: 'text-amber-600 dark:text-amber-400', aliases: [] },
+  { type: 'grid', label: 'Grid', abbreviation: 'GRID', color: 'text-amber-600 dark:text-amber-400', aliases: [] }
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// What may follow a type in a section label: a number ("Verse 2", "Chorus
+// 1b") and a repeat count ("Chorus x2", "Tag (x3)")
+const LABEL_SUFFIX = '(\\s*\\d+[a-z]?)?(\\s*[([]?[xX×]\\d+[)\\]]?)?';
+
+// Registry of section types: labels, abbreviations, colors and name matching.
+// Types not listed here pass through with a label made from the type itself.
+export class SectionTypes {
+  static getAll(): SectionTypeInfo[] {
+    return SECTION_TYPES;
+  }
+
+  static isKnownType(type: string): boolean {
+    return SECTION_TYPES.some(info => info.type === type);
+  }
+
+  /**
+   * Look up a section type, falling back to a neutral entry for unknown types
+   */
+  static get(type: SectionType): SectionTypeInfo {
+    const known = SECTION_TYPES.find(info => info.type === type);
+    if (known) return known;
+
+    const words = type.split(/[\s_-]+/).filter(Boolean);
+    return {
+      type,
+      label: words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ') || type,
+      abbreviation: words.map(word => word.charAt(0).toUpperCase()).join('') || '?',
+      color: 'text-foreground',
+      aliases: []
+    };
+  }
+
+  /**
+   * Work out the type a section name refers to ("Verse 2", "Pre-Chorus",
+   * "Final Chorus", "Guitar Solo"), or undefined when it names no known type.
+   * The whole name must be the label, with at most one word before the type,
+   * so lyrics such as "Ending: we sing" are not read as sections.
+   */
+  static fromName(name: string): SectionType | undefined {
+    const lowerName = name.trim().toLowerCase();
+    return SECTION_TYPES.find(info =>
+      info.aliases.some(alias => new RegExp(`^([a-z]+\\s+)?${escapeRegExp(alias)}${LABEL_SUFFIX}$`).test(lowerName))
+    )?.type;
+  }
+
+  /**
+   * Check whether some text is nothing but a section label, like "Verse 1",
+   * "Pre-Chorus" or "Chorus x2", with no colon
+   */
+  static isLabel(text: string): boolean {
+    const aliases = SECTION_TYPES.flatMap(info => info.aliases).map(escapeRegExp).join('|');
+    return new RegExp(`^(${aliases})${LABEL_SUFFIX}$`, 'i').test(text.trim());
+  }
+}
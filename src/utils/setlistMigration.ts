@@ -1,5 +1,5 @@
 // UUID import removed as it's not used in this file
-import type { Setlist } from '../types';
+import type { Key, Setlist } from '../types';
 import { setlistStorage } from './setlistStorage';
 import { dataLoader } from './dataLoader';
 
@@ -10,9 +10,10 @@ interface LegacySetlist {
   songs: {
     songId: string;
     order: number;
-    customKey?: string;
+    customKey?: Key;
     customCapo?: number;
     notes?: string;
+    flow?: string[];
   }[];
   createdAt: string | Date;
   updatedAt: string | Date;
@@ -96,6 +97,7 @@ class SetlistMigrationService {
         customKey: song.customKey,
         customCapo: song.customCapo,
         notes: song.notes,
+        flow: song.flow,
         addedAt: now // Use current time since we don't have the original add time
       }))
     };
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { Setlist, SetlistMetadata, SetlistSong, SetlistStorage } from '../types';
+import { ChordTransposer } from './chordTransposer';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -56,10 +57,7 @@ class SetlistStorageService implements SetlistStorage {
           createdAt: new Date(setlist.metadata.createdAt),
           updatedAt: new Date(setlist.metadata.updatedAt)
         },
-        songs: setlist.songs.map((song: any) => ({
-          ...song,
-          addedAt: new Date(song.addedAt)
-        }))
+        songs: setlist.songs.map((song: any) => this.restoreSong(song))
       }));
     } catch (error) {
       console.error('Error parsing stored setlists:', error);
@@ -67,6 +65,16 @@ class SetlistStorageService implements SetlistStorage {
     }
   }
 
+  // Revive a stored setlist song: dates come back as strings, and keys saved
+  // by older versions as labels such as "Bbm"
+  private restoreSong(song: Omit<SetlistSong, 'customKey' | 'addedAt'> & { customKey?: unknown; addedAt: string }): SetlistSong {
+    return {
+      ...song,
+      customKey: ChordTransposer.normaliseKey(song.customKey) ?? undefined,
+      addedAt: new Date(song.addedAt)
+    };
+  }
+
   private saveSetlists(setlists: Setlist[]): void {
     try {
       localStorage.setItem(STORAGE_KEYS.SETLISTS, JSON.stringify(setlists));
@@ -311,10 +319,7 @@ class SetlistStorageService implements SetlistStorage {
             createdAt: new Date(setlistData.metadata.createdAt),
             updatedAt: new Date()
           },
-          songs: setlistData.songs.map((song: any) => ({
-            ...song,
-            addedAt: new Date(song.addedAt)
-          }))
+          songs: setlistData.songs.map((song: any) => this.restoreSong(song))
         };
 
         existingSetlists.push(newSetlist);
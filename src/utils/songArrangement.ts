@@ -0,0 +1,125 @@
+import type { SongSection } from '../types';
+import { ChordProParser } from './chordProParser';
+import { SectionTypes } from './sectionTypes';
+
+export interface ArrangementEntry {
+  label: string; // Short label for the roadmap, e.g. "V2" or "C"
+  sectionIndex: number; // Index into the song's sections
+  repeat?: number; // Times the section is played here
+}
+
+// Songs are arranged with flows: section labels in playing order, like
+// "V1 C V2 C B x2 C". Labels are section abbreviations, numbered when a song
+// has more than one section of the type; section names work too.
+export class SongArrangement {
+  /**
+   * Roadmap label for each section. Recalls share the label of the section
+   * they recall.
+   */
+  static getSectionLabels(sections: SongSection[]): string[] {
+    const originals = sections.filter(section => !this.findOriginal(sections, section));
+    const countByType = new Map<string, number>();
+    originals.forEach(section => countByType.set(section.type, (countByType.get(section.type) ?? 0) + 1));
+
+    const seenByType = new Map<string, number>();
+    const labels = new Map<SongSection, string>();
+    originals.forEach(section => {
+      const number = (seenByType.get(section.type) ?? 0) + 1;
+      seenByType.set(section.type, number);
+      const { abbreviation } = SectionTypes.get(section.type);
+      labels.set(section, (countByType.get(section.type) ?? 0) > 1 ? `${abbreviation}${number}` : abbreviation);
+    });
+
+    return sections.map(section => {
+      const original = this.findOriginal(sections, section) ?? section;
+      return labels.get(original) ?? SectionTypes.get(section.type).abbreviation;
+    });
+  }
+
+  /**
+   * The sections a flow plays, in order. Without a flow the song plays as
+   * written. Labels that match no section are skipped.
+   */
+  static getEntries(sections: SongSection[], flow?: string[]): ArrangementEntry[] {
+    const labels = this.getSectionLabels(sections);
+    if (!flow?.length) {
+      return sections.map((section, index) => ({ label: labels[index], sectionIndex: index, repeat: section.repeat }));
+    }
+
+    const entries: ArrangementEntry[] = [];
+    for (const token of flow) {
+      // "x2" on its own repeats the previous entry
+      const repeatOnly = token.match(/^[xX×](\d+)$/);
+      if (repeatOnly) {
+        const previous = entries[entries.length - 1];
+        if (previous) previous.repeat = parseInt(repeatOnly[1], 10);
+        continue;
+      }
+      const attached = token.match(/^(.+?)[xX×](\d+)$/);
+      const label = attached ? attached[1] : token;
+      const sectionIndex = this.findSection(sections, labels, label);
+      if (sectionIndex === -1) continue;
+      entries.push({
+        label: labels[sectionIndex],
+        sectionIndex,
+        repeat: attached ? parseInt(attached[2], 10) : undefined
+      });
+    }
+    return entries;
+  }
+
+  /**
+   * Write entries back as a flow, e.g. ["V1", "C", "Bx2"]
+   */
+  static toFlow(entries: ArrangementEntry[]): string[] {
+    return entries.map(({ label, repeat }) => (repeat ?? 1) > 1 ? `${label}x${repeat}` : label);
+  }
+
+  /**
+   * The distinct roadmap labels of a song, in the order they first appear,
+   * with the section each stands for
+   */
+  static getAvailableLabels(sections: SongSection[]): ArrangementEntry[] {
+    const labels = this.getSectionLabels(sections);
+    return labels
+      .map((label, sectionIndex) => ({ label, sectionIndex }))
+      .filter(({ label }, index) => labels.indexOf(label) === index);
+  }
+
+  /**
+   * The sections to render for a flow. A section played again after it has
+   * been shown becomes a recall of it, as a chart written out by hand would.
+   */
+  static arrange(sections: SongSection[], flow?: string[]): SongSection[] {
+    if (!flow?.length) return sections;
+
+    const shown = new Set<SongSection>();
+    return this.getEntries(sections, flow).map(({ sectionIndex, repeat }) => {
+      const section = sections[sectionIndex];
+      const original = this.findOriginal(sections, section) ?? section;
+      // Recalls with lines of their own are variations, not plain repeats
+      const recallsOnly = section !== original && section.content.length === 0;
+      const arranged: SongSection = shown.has(original) && original.name && (recallsOnly || section === original)
+        ? { type: original.type, name: original.name, reference: original.name, content: [] }
+        : { ...(recallsOnly ? original : section) };
+      shown.add(original);
+      if (repeat !== undefined) arranged.repeat = repeat > 1 ? repeat : undefined;
+      return arranged;
+    });
+  }
+
+  // Matches a flow label to a section: its roadmap label, its name, or a bare
+  // abbreviation for the first section of the type
+  private static findSection(sections: SongSection[], labels: string[], label: string): number {
+    const wanted = label.toLowerCase();
+    const byLabel = labels.findIndex(candidate => candidate.toLowerCase() === wanted);
+    if (byLabel !== -1) return byLabel;
+    const byName = sections.findIndex(section => section.name?.toLowerCase() === wanted);
+    if (byName !== -1) return byName;
+    return sections.findIndex(section => SectionTypes.get(section.type).abbreviation.toLowerCase() === wanted);
+  }
+
+  private static findOriginal(sections: SongSection[], section: SongSection): SongSection | undefined {
+    return ChordProParser.findReferencedSection(sections, section);
+  }
+}
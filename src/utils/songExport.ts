@@ -0,0 +1,53 @@
+import type { Song } from '../types';
+import { ChordProParser } from './chordProParser';
+import { OpenLyricsConverter } from './openLyricsConverter';
+import { OpenSongConverter } from './openSongConverter';
+
+export type SongExportFormat = 'chordpro' | 'openlyrics' | 'opensong';
+
+export interface SongExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// How long a download's blob URL is kept before it is released
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+export const SONG_EXPORT_FORMATS: Array<{ format: SongExportFormat; label: string }> = [
+  { format: 'chordpro', label: 'ChordPro' },
+  { format: 'openlyrics', label: 'OpenLyrics' },
+  { format: 'opensong', label: 'OpenSong' }
+];
+
+// Writes songs out for other apps, such as the projection software the
+// lyrics came from
+export class SongExport {
+  static toFile(song: Song, format: SongExportFormat): SongExportFile {
+    switch (format) {
+      case 'openlyrics':
+        return { filename: `${song.id}.xml`, content: OpenLyricsConverter.songToOpenLyrics(song), mimeType: 'application/xml' };
+      case 'opensong':
+        // OpenSong keeps its songs in files without an extension
+        return { filename: song.id, content: OpenSongConverter.songToOpenSong(song), mimeType: 'application/xml' };
+      case 'chordpro':
+      default:
+        return { filename: `${song.id}.chordpro`, content: ChordProParser.songToChordPro(song), mimeType: 'text/plain' };
+    }
+  }
+
+  /**
+   * Save a song file through the browser's downloads
+   */
+  static download(song: Song, format: SongExportFormat): void {
+    const { filename, content, mimeType } = this.toFile(song, format);
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Safari starts the download after click() returns, so the URL must
+    // outlive this call
+    setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+  }
+}
@@ -1,9 +1,13 @@
-// Song override storage utilities for persisting transpose and capo settings
+// Song override storage utilities for persisting transpose, capo and
+// auto-scroll settings
+import type { Key } from '../types';
+import { ChordTransposer } from './chordTransposer';
 
 export interface SongOverride {
   songId: string;
-  customKey?: string; // Transposed key
+  customKey?: Key; // Transposed key
   customCapo?: number; // Capo position
+  scrollSpeed?: number; // Auto-scroll speed multiplier, 1 = the song's estimated pace
   updatedAt: Date;
 }
 
@@ -24,11 +28,15 @@ export class SongOverrideStorage {
       
       const parsed = JSON.parse(stored);
       
-      // Convert date strings back to Date objects
+      // Convert date strings back to Date objects, and keys saved by older
+      // versions ("A#", "E minor") to Keys
       Object.values(parsed).forEach((override: any) => {
         if (override.updatedAt) {
           override.updatedAt = new Date(override.updatedAt);
         }
+        if (override.customKey) {
+          override.customKey = ChordTransposer.normaliseKey(override.customKey) ?? undefined;
+        }
       });
       
       return parsed;
@@ -47,20 +55,22 @@ export class SongOverrideStorage {
   }
 
   /**
-   * Save override settings for a song
+   * Save override settings for a song. The saved scroll speed is kept.
    */
-  static set(songId: string, customKey?: string, customCapo?: number): void {
+  static set(songId: string, customKey?: Key, customCapo?: number): void {
     try {
       const overrides = this.getAll();
+      const scrollSpeed = overrides[songId]?.scrollSpeed;
       
-      // If both customKey and customCapo are undefined/null, remove the override
-      if (customKey === undefined && customCapo === undefined) {
+      // If nothing is overridden any more, remove the override
+      if (customKey === undefined && customCapo === undefined && scrollSpeed === undefined) {
         delete overrides[songId];
       } else {
         overrides[songId] = {
           songId,
           customKey,
           customCapo,
+          scrollSpeed,
           updatedAt: new Date()
         };
       }
@@ -71,6 +81,47 @@ export class SongOverrideStorage {
     }
   }
 
+  /**
+   * Clear a song's transposed key and capo, keeping its scroll speed
+   */
+  static clearTransposition(songId: string): void {
+    this.set(songId, undefined, undefined);
+  }
+
+  /**
+   * Save a song's auto-scroll speed. A speed of 1 is the default and is not
+   * stored.
+   */
+  static setScrollSpeed(songId: string, scrollSpeed: number): void {
+    try {
+      const overrides = this.getAll();
+      const existing = overrides[songId];
+      const speed = scrollSpeed === 1 ? undefined : scrollSpeed;
+      
+      if (speed === undefined && existing?.customKey === undefined && existing?.customCapo === undefined) {
+        delete overrides[songId];
+      } else {
+        overrides[songId] = {
+          ...existing,
+          songId,
+          scrollSpeed: speed,
+          updatedAt: new Date()
+        };
+      }
+      
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+      console.error('Error saving scroll speed:', error);
+    }
+  }
+
+  /**
+   * Get the auto-scroll speed for a song, 1 when none is saved
+   */
+  static getScrollSpeed(songId: string): number {
+    return this.get(songId)?.scrollSpeed ?? 1;
+  }
+
   /**
    * Remove override settings for a song
    */
@@ -96,19 +147,19 @@ export class SongOverrideStorage {
   }
 
   /**
-   * Check if a song has any overrides
+   * Check if a song has a transposed key or capo
    */
   static hasOverride(songId: string): boolean {
     const override = this.get(songId);
-    return override !== null;
+    return override?.customKey !== undefined || override?.customCapo !== undefined;
   }
 
   /**
    * Get the effective key for a song (considering overrides)
    */
-  static getEffectiveKey(songId: string, originalKey: string): string {
+  static getEffectiveKey(songId: string, originalKey: Key): Key {
     const override = this.get(songId);
-    return override?.customKey || originalKey;
+    return ChordTransposer.inSongMode(override?.customKey || originalKey, originalKey);
   }
 
   /**
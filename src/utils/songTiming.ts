@@ -0,0 +1,60 @@
+import type { Song, SongSection, ChordLyricLine } from '../types';
+import { ChordProParser } from './chordProParser';
+import { SongArrangement } from './songArrangement';
+
+// Assumed when the song doesn't say
+const DEFAULT_TEMPO = 80;
+const DEFAULT_TIME_SIGNATURE = '4/4';
+// A sung line usually spans two bars however few chords it has
+const BARS_PER_LYRIC_LINE = 2;
+
+// Estimates how long a song takes to play from its tempo, time signature and
+// the bars implied by its lines, for pacing auto-scroll
+export class SongTiming {
+  /**
+   * Seconds each section takes, in the order of song.sections or of the
+   * sections a flow plays. Recalled sections take as long as the section
+   * they recall.
+   */
+  static getSectionDurations(song: Song, flow?: string[]): number[] {
+    const secondsPerBar = this.getBeatsPerBar(song.timeSignature) * 60 / (song.tempo || DEFAULT_TEMPO);
+    return SongArrangement.arrange(song.sections, flow).map(section => {
+      const content = section.reference && section.content.length === 0
+        ? ChordProParser.findReferencedSection(song.sections, section)?.content ?? []
+        : section.content;
+      return this.getSectionBars(section, content) * secondsPerBar;
+    });
+  }
+
+  static getDuration(song: Song, flow?: string[]): number {
+    return this.getSectionDurations(song, flow).reduce((total, seconds) => total + seconds, 0);
+  }
+
+  /**
+   * Format seconds as "3:05"
+   */
+  static formatDuration(seconds: number): string {
+    const rounded = Math.round(seconds);
+    return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+  }
+
+  // Quarter-note beats in a bar: 4/4 has 4, 6/8 has 3
+  private static getBeatsPerBar(timeSignature: string = DEFAULT_TIME_SIGNATURE): number {
+    const match = timeSignature.match(/^(\d+)\/(\d+)$/);
+    if (!match) return 4;
+    return parseInt(match[1], 10) * 4 / parseInt(match[2], 10);
+  }
+
+  private static getSectionBars(section: SongSection, content: ChordLyricLine[]): number {
+    const bars = content.reduce((total, line) => total + this.getLineBars(section, line) * (line.repeat ?? 1), 0);
+    return bars * (section.repeat ?? 1);
+  }
+
+  // Chord-only lines get a bar per chord; tab and grid lines a bar each
+  private static getLineBars(section: SongSection, line: ChordLyricLine): number {
+    if (line.comment) return 0;
+    if (section.type === 'tab' || section.type === 'grid') return line.lyrics.trim() ? 1 : 0;
+    if (!line.lyrics.trim()) return line.chords.length;
+    return Math.max(BARS_PER_LYRIC_LINE, Math.ceil(line.chords.length / 2));
+  }
+}
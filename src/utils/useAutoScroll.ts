@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import { ChartScroller } from './chartScroller';
+
+interface UseAutoScrollOptions {
+  contentRef: RefObject<HTMLElement | null>; // Element holding the song's .song-section elements
+  sectionDurations: number[]; // Seconds each section takes at speed 1
+  speed?: number; // Multiplier on the song's pace
+  holdAtSectionStart?: boolean; // Keep each section's start in view before moving on
+  topOffset?: number; // Pixels hidden behind fixed headers
+}
+
+// Share of a section's time spent holding its start at the top of the screen
+const HOLD_SHARE = 0.5;
+
+// Scrolls the song along at the pace of its sections: each section reaches
+// the top of the screen as it starts, and the chart ends as the song does
+export function useAutoScroll(options: UseAutoScrollOptions) {
+  const { contentRef, sectionDurations, speed = 1, holdAtSectionStart = true, topOffset = 0 } = options;
+
+  const [isScrolling, setIsScrolling] = useState(false);
+  const elapsedRef = useRef(0); // Song time played, in seconds at speed 1
+  const speedRef = useRef(speed);
+  const holdRef = useRef(holdAtSectionStart);
+
+  useEffect(() => {
+    speedRef.current = speed;
+    holdRef.current = holdAtSectionStart;
+  }, [speed, holdAtSectionStart]);
+
+  // Scroll position for a moment in the song
+  const getScrollTarget = useCallback((container: HTMLElement, elapsed: number): number => {
+    const content = contentRef.current;
+    const maxScroll = container.scrollHeight - container.clientHeight;
+    if (!content) return container.scrollTop;
+
+    const containerTop = container === document.scrollingElement ? 0 : container.getBoundingClientRect().top;
+    const sections = Array.from(content.querySelectorAll<HTMLElement>('.song-section'));
+    const total = sectionDurations.reduce((sum, seconds) => sum + seconds, 0);
+    if (sections.length !== sectionDurations.length || total === 0) {
+      return maxScroll * Math.min(1, total > 0 ? elapsed / total : 0);
+    }
+
+    // Where each section's start sits at the top of the screen; the song's
+    // header stays visible for the first section
+    const stops = sections.map((section, index) => index === 0
+      ? 0
+      : section.getBoundingClientRect().top - containerTop + container.scrollTop - topOffset);
+    stops.push(maxScroll);
+
+    let start = 0;
+    for (let index = 0; index < sections.length; index++) {
+      const duration = sectionDurations[index];
+      if (elapsed < start + duration || index === sections.length - 1) {
+        let progress = duration > 0 ? Math.min(1, (elapsed - start) / duration) : 1;
+        // Sections taller than the screen can't be held in view
+        const fits = sections[index].offsetHeight <= container.clientHeight - topOffset;
+        if (holdRef.current && fits) {
+          progress = Math.max(0, (progress - HOLD_SHARE) / (1 - HOLD_SHARE));
+        }
+        const from = Math.min(maxScroll, Math.max(0, stops[index]));
+        const to = Math.min(maxScroll, Math.max(from, stops[index + 1]));
+        return from + (to - from) * progress;
+      }
+      start += duration;
+    }
+    return maxScroll;
+  }, [contentRef, sectionDurations, topOffset]);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!isScrolling || !content) return;
+    const container = ChartScroller.findContainer(content);
+    const total = sectionDurations.reduce((sum, seconds) => sum + seconds, 0);
+    // Starting again after the end goes back to the top
+    if (elapsedRef.current >= total) elapsedRef.current = 0;
+
+    let frame = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      elapsedRef.current += (now - last) / 1000 * speedRef.current;
+      last = now;
+      container.scrollTop = getScrollTarget(container, elapsedRef.current);
+      if (elapsedRef.current >= total) {
+        setIsScrolling(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isScrolling, contentRef, sectionDurations, getScrollTarget]);
+
+  // A new song starts from the top, paused
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setIsScrolling(false);
+  }, [sectionDurations]);
+
+  const start = useCallback(() => setIsScrolling(true), []);
+  const pause = useCallback(() => setIsScrolling(false), []);
+  const toggle = useCallback(() => setIsScrolling(scrolling => !scrolling), []);
+
+  const reset = useCallback(() => {
+    elapsedRef.current = 0;
+    setIsScrolling(false);
+  }, []);
+
+  return {
+    isScrolling,
+    start,
+    pause,
+    toggle,
+    reset,
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import { midiDevices } from './midiDevices';
+import type { MidiMessage } from './midiDevices';
+
+// Calls onMessage for each MIDI message while enabled. The first use asks the
+// browser for MIDI access.
+export function useMidiInput(enabled: boolean, onMessage: (message: MidiMessage) => void) {
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    if (!enabled || !midiDevices.isSupported()) return;
+    return midiDevices.subscribe(message => onMessageRef.current(message));
+  }, [enabled]);
+}